@@ -82,6 +82,7 @@ export interface IconElements {
   count: number;
   hasInteraction: boolean;
   types: string[];
+  layers: string[]; // nomes das camadas de ícone, ex: "Icon / Trash"
 }
 
 export interface LayoutElements {
@@ -221,9 +222,38 @@ export class ElementExtractor {
       count: (code.match(/icon|Icon/gi) || []).length,
       hasInteraction: /IconButton|onPress.*icon/gi.test(code),
       types: this.detectIconTypes(code),
+      layers: this.extractIconLayers(code),
     };
   }
 
+  /**
+   * Nomes das camadas de ícone exportadas pelo Figma (data-name, alt,
+   * className, componentes ou assets com "icon"/"ic_" no nome)
+   */
+  private extractIconLayers(code: string): string[] {
+    const patterns = [
+      /data-name=["']([^"']+)["']/gi,
+      /alt=["']([^"']+)["']/gi,
+      /className=["']([^"']+)["']/gi,
+      /<(Icon[A-Z]\w*)/g,
+      /["'`][^"'`]*?([\w-]+)\.svg["'`]/gi,
+    ];
+    const layers: string[] = [];
+
+    patterns.forEach(pattern => {
+      let match;
+      while ((match = pattern.exec(code)) !== null) {
+        // className pode ter várias classes: só as que parecem ícone
+        const candidates = pattern.source.startsWith('className') ? match[1].split(/\s+/) : [match[1]];
+        candidates
+          .filter(name => /(^|[^a-z])ic(on)?([^a-z]|$)|^Icon[A-Z]|[a-z]Icon/i.test(name))
+          .forEach(name => layers.push(name.trim()));
+      }
+    });
+
+    return [...new Set(layers)].slice(0, 20);
+  }
+
   private extractInputs(code: string): InputElements {
     return {
       found: /input|Input|Field|TextInput/gi.test(code),
@@ -0,0 +1,54 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { HardcodedStyleLinter } from './HardcodedStyleLinter.js';
+import type { DesignToken } from '../types/mistica.js';
+
+const tokens: DesignToken[] = [8, 12, 16, 24].map(value => ({
+  name: `space.${value}`,
+  value: `${value}px`,
+  category: 'spacing',
+}));
+
+function spacingOf(code: string) {
+  return new HardcodedStyleLinter()
+    .lint(code, tokens)
+    .filter(finding => finding.kind === 'spacing')
+    .map(finding => [finding.value, finding.suggestion]);
+}
+
+describe('HardcodedStyleLinter (espaçamento)', () => {
+  test('verifica cada valor de um atalho entre aspas', () => {
+    assert.deepEqual(spacingOf("<div style={{ padding: '8px 16px' }} />"), [
+      ['8px', '<Box paddingY={8}>'],
+      ['16px', '<Box paddingX={16}>'],
+    ]);
+  });
+
+  test('verifica cada valor de um atalho em CSS', () => {
+    assert.deepEqual(spacingOf('.card {\n  margin: 10px 20px;\n  gap: 12px 24px;\n}'), [
+      ['10px', '<Stack space={8}>'],
+      ['20px', '<Inline space={16}>'],
+      ['12px', '<Stack space={12}>'],
+      ['24px', '<Inline space={24}>'],
+    ]);
+  });
+
+  test('aceita números sem unidade só em objetos JS', () => {
+    assert.deepEqual(spacingOf("const s = { paddingTop: 16, marginLeft: '8' };"), [['16', '<Box paddingTop={16}>']]);
+  });
+
+  test('ignora valores que não são medidas fixas', () => {
+    assert.deepEqual(spacingOf('.a { margin: auto; padding: 5%; margin-top: var(--space); }'), []);
+  });
+
+  test('aponta a posição de cada valor', () => {
+    const findings = new HardcodedStyleLinter().lint('a {\n  margin: 10px 20px;\n}', tokens);
+    assert.deepEqual(
+      findings.map(finding => finding.position),
+      [
+        { line: 2, column: 11 },
+        { line: 2, column: 16 },
+      ]
+    );
+  });
+});
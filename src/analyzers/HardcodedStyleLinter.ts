@@ -0,0 +1,373 @@
+import type { DesignToken } from '../types/mistica.js';
+import type { SourcePosition } from './MisticaJsxScanner.js';
+import { kebabToCamel } from '../utils/helpers.js';
+
+/**
+ * 🧹 HardcodedStyleLinter - Encontra estilos fixos que deveriam usar o Mística
+ *
+ * Responsabilidade: Varrer snippets TSX/CSS atrás de cores hex/rgb,
+ * espaçamentos, tamanhos de fonte e raios de borda fixos, sugerindo o token
+ * da skin, o valor de `Box`/`Stack`/`Inline` ou o componente de texto mais
+ * próximo, com uma pontuação de confiança.
+ */
+
+export type StyleFindingKind = 'color' | 'spacing' | 'font-size' | 'border-radius';
+
+export interface StyleFinding {
+  kind: StyleFindingKind;
+  property: string;
+  value: string;
+  position: SourcePosition;
+  suggestion: string;
+  token?: string;
+  alternatives?: string[];
+  confidence: number; // 0 a 1
+}
+
+interface Rgba {
+  r: number;
+  g: number;
+  b: number;
+  a: number;
+}
+
+interface TextPresetSize {
+  component: string;
+  mobile: number;
+  desktop: number;
+  token?: string;
+}
+
+/**
+ * Escala tipográfica de referência (mobile/desktop) usada quando a skin
+ * não publica os tamanhos dos presets de texto
+ */
+const DEFAULT_TEXT_PRESET_SIZES: TextPresetSize[] = [
+  { component: 'Text1', mobile: 12, desktop: 12 },
+  { component: 'Text2', mobile: 14, desktop: 16 },
+  { component: 'Text3', mobile: 16, desktop: 18 },
+  { component: 'Text4', mobile: 18, desktop: 20 },
+  { component: 'Text5', mobile: 20, desktop: 28 },
+  { component: 'Text6', mobile: 24, desktop: 32 },
+  { component: 'Text7', mobile: 28, desktop: 40 },
+  { component: 'Text8', mobile: 32, desktop: 48 },
+  { component: 'Text9', mobile: 40, desktop: 56 },
+  { component: 'Text10', mobile: 48, desktop: 64 },
+];
+
+const HEX_COLOR_PATTERN = /#(?:[0-9a-fA-F]{8}|[0-9a-fA-F]{6}|[0-9a-fA-F]{3,4})\b/g;
+const RGB_COLOR_PATTERN = /rgba?\(\s*\d{1,3}\s*,\s*\d{1,3}\s*,\s*\d{1,3}\s*(?:,\s*[\d.]+\s*)?\)/gi;
+
+// Declarações de espaçamento em CSS (`margin: 10px 20px;`) e em objetos de
+// estilo JS (`padding: '8px 16px'`, `gap: 16`). Grupo 1 é a propriedade,
+// grupo 2 a aspa (se houver) e grupo 3 a lista de valores.
+const SPACING_DECLARATION_PATTERN =
+  /\b((?:padding|margin)[a-z-]*|(?:row-?|column-?)?gap)\s*:\s*(['"`]?)([^'"`;,}\n]+)\2/dgi;
+const SPACING_VALUE = /^(\d+(?:\.\d+)?)(px|rem|em)?$/i;
+
+// Lados de cada valor nos atalhos com 2, 3 ou 4 valores
+const SHORTHAND_SIDES: Record<number, string[]> = {
+  2: ['Vertical', 'Horizontal'],
+  3: ['Top', 'Horizontal', 'Bottom'],
+  4: ['Top', 'Right', 'Bottom', 'Left'],
+};
+const FONT_SIZE_PATTERN = /font-?size\s*[:=]\s*[{'"`]?\s*(\d+(?:\.\d+)?)(px|rem|em)?/gi;
+const BORDER_RADIUS_PATTERN = /border-?[\w-]*?radius\s*[:=]\s*[{'"`]?\s*(\d+(?:\.\d+)?)(px|rem|%)?/gi;
+
+// Distância RGB a partir da qual a confiança de uma cor chega a zero
+const MAX_COLOR_DISTANCE = 120;
+
+export class HardcodedStyleLinter {
+  lint(code: string, tokens: DesignToken[]): StyleFinding[] {
+    const lineStarts = this.computeLineStarts(code);
+    const findings = [
+      ...this.lintColors(code, tokens, lineStarts),
+      ...this.lintSpacing(code, tokens, lineStarts),
+      ...this.lintFontSizes(code, tokens, lineStarts),
+      ...this.lintBorderRadii(code, tokens, lineStarts),
+    ];
+
+    return findings.sort((a, b) => a.position.line - b.position.line || a.position.column - b.position.column);
+  }
+
+  private lintColors(code: string, tokens: DesignToken[], lineStarts: number[]): StyleFinding[] {
+    const colorTokens = tokens
+      .filter(token => token.category === 'color')
+      .map(token => ({ token, rgba: this.parseColor(token.modes?.light ?? token.value) }))
+      .filter((entry): entry is { token: DesignToken; rgba: Rgba } => entry.rgba !== null);
+    if (colorTokens.length === 0) return [];
+
+    const findings: StyleFinding[] = [];
+    for (const pattern of [HEX_COLOR_PATTERN, RGB_COLOR_PATTERN]) {
+      for (const match of code.matchAll(new RegExp(pattern.source, pattern.flags))) {
+        const rgba = this.parseColor(match[0]);
+        if (!rgba) continue;
+
+        const property = this.findPropertyBefore(code, match.index!) || 'color';
+        const ranked = colorTokens
+          .map(entry => ({
+            name: entry.token.name,
+            distance: this.colorDistance(rgba, entry.rgba),
+            matchesContext: this.matchesPropertyContext(entry.token.name, property),
+          }))
+          .sort((a, b) => a.distance - b.distance || Number(b.matchesContext) - Number(a.matchesContext));
+
+        const best = ranked[0];
+        const alternatives = ranked
+          .slice(1)
+          .filter(candidate => candidate.distance === best.distance)
+          .slice(0, 3)
+          .map(candidate => `skinVars.${candidate.name}`);
+
+        findings.push({
+          kind: 'color',
+          property,
+          value: match[0],
+          position: this.getPosition(lineStarts, match.index!),
+          suggestion: `skinVars.${best.name}`,
+          token: best.name,
+          alternatives: alternatives.length > 0 ? alternatives : undefined,
+          confidence: this.round(Math.max(0, 1 - best.distance / MAX_COLOR_DISTANCE)),
+        });
+      }
+    }
+
+    return findings;
+  }
+
+  private lintSpacing(code: string, tokens: DesignToken[], lineStarts: number[]): StyleFinding[] {
+    const scale = tokens
+      .filter(token => token.category === 'spacing')
+      .map(token => parseFloat(token.value))
+      .filter(value => !Number.isNaN(value));
+    if (scale.length === 0) return [];
+
+    const findings: StyleFinding[] = [];
+    const pattern = new RegExp(SPACING_DECLARATION_PATTERN.source, SPACING_DECLARATION_PATTERN.flags);
+
+    for (const match of code.matchAll(pattern)) {
+      const rawProperty = kebabToCamel(match[1]);
+      const property = rawProperty.charAt(0).toLowerCase() + rawProperty.slice(1);
+      const quoted = match[2] !== '';
+      const values = [...match[3].matchAll(/\S+/g)];
+      const valueStart = match.indices![3][0];
+
+      values.forEach((value, index) => {
+        const parsed = value[0].match(SPACING_VALUE);
+        // Sem unidade só vale em objetos JS (`padding: 16`), nunca entre aspas
+        if (!parsed || (!parsed[2] && quoted)) return;
+
+        const pixels = this.toPixels(Number(parsed[1]), parsed[2] || 'px');
+        const nearest = this.nearest(pixels, scale);
+
+        findings.push({
+          kind: 'spacing',
+          property,
+          value: value[0],
+          position: this.getPosition(lineStarts, valueStart + value.index!),
+          suggestion: this.spacingSuggestion(this.shorthandSide(property, index, values.length), nearest),
+          token: `space.${nearest}`,
+          confidence: this.numericConfidence(pixels, nearest),
+        });
+      });
+    }
+
+    return findings;
+  }
+
+  /**
+   * Propriedade efetiva de cada valor de um atalho: `padding: 8px 16px` é
+   * paddingVertical + paddingHorizontal e `gap: 8px 16px` é rowGap + columnGap
+   */
+  private shorthandSide(property: string, index: number, count: number): string {
+    if (count < 2) return property;
+    if (property === 'gap') return index === 0 ? 'rowGap' : 'columnGap';
+    if (property !== 'padding' && property !== 'margin') return property;
+    return property + (SHORTHAND_SIDES[count]?.[index] ?? '');
+  }
+
+  private lintFontSizes(code: string, tokens: DesignToken[], lineStarts: number[]): StyleFinding[] {
+    const presets = this.getTextPresetSizes(tokens);
+
+    return [...code.matchAll(new RegExp(FONT_SIZE_PATTERN.source, FONT_SIZE_PATTERN.flags))].map(match => {
+      const pixels = this.toPixels(Number(match[1]), match[2] || 'px');
+      const ranked = presets
+        .map(preset => ({
+          preset,
+          distance: Math.min(Math.abs(preset.mobile - pixels), Math.abs(preset.desktop - pixels)),
+        }))
+        .sort((a, b) => a.distance - b.distance);
+      const { preset, distance } = ranked[0];
+
+      return {
+        kind: 'font-size' as const,
+        property: 'fontSize',
+        value: `${match[1]}${match[2] || ''}`,
+        position: this.getPosition(lineStarts, match.index!),
+        suggestion: `<${preset.component}> (${preset.mobile}px mobile / ${preset.desktop}px desktop)`,
+        token: preset.token,
+        confidence: this.numericConfidence(pixels, pixels + distance),
+      };
+    });
+  }
+
+  private lintBorderRadii(code: string, tokens: DesignToken[], lineStarts: number[]): StyleFinding[] {
+    const radii = tokens
+      .filter(token => token.category === 'border')
+      .map(token => ({ name: token.name, value: parseFloat(token.value), percent: token.value.endsWith('%') }))
+      .filter(radius => !Number.isNaN(radius.value));
+    if (radii.length === 0) return [];
+
+    const findings: StyleFinding[] = [];
+    for (const match of code.matchAll(new RegExp(BORDER_RADIUS_PATTERN.source, BORDER_RADIUS_PATTERN.flags))) {
+      const percent = match[2] === '%';
+      const candidates = radii.filter(radius => radius.percent === percent);
+      if (candidates.length === 0) continue;
+
+      const value = percent ? Number(match[1]) : this.toPixels(Number(match[1]), match[2] || 'px');
+      const best = candidates.reduce((a, b) => (Math.abs(b.value - value) < Math.abs(a.value - value) ? b : a));
+
+      findings.push({
+        kind: 'border-radius',
+        property: 'borderRadius',
+        value: `${match[1]}${match[2] || ''}`,
+        position: this.getPosition(lineStarts, match.index!),
+        suggestion: `skinVars.${best.name}`,
+        token: best.name,
+        confidence: this.numericConfidence(value, best.value),
+      });
+    }
+
+    return findings;
+  }
+
+  /**
+   * Presets publicados na skin (`textPresets.<preset>.size`) têm prioridade
+   * sobre a escala de referência
+   */
+  private getTextPresetSizes(tokens: DesignToken[]): TextPresetSize[] {
+    const presets = new Map(DEFAULT_TEXT_PRESET_SIZES.map(preset => [preset.component, preset]));
+
+    for (const token of tokens) {
+      const match = token.name.match(/^textPresets\.(\w+)\.size$/);
+      if (!match) continue;
+
+      let size: any;
+      try {
+        size = JSON.parse(token.value);
+      } catch {
+        continue;
+      }
+      const mobile = typeof size === 'number' ? size : size?.mobile;
+      const desktop = typeof size === 'number' ? size : size?.desktop ?? mobile;
+      if (typeof mobile !== 'number') continue;
+
+      const component = match[1].charAt(0).toUpperCase() + match[1].slice(1);
+      presets.set(component, { component, mobile, desktop, token: token.name });
+    }
+
+    return [...presets.values()];
+  }
+
+  private spacingSuggestion(property: string, value: number): string {
+    if (property.startsWith('padding')) {
+      const side = property.slice('padding'.length);
+      const boxProp =
+        side === 'Horizontal' || side === 'Inline'
+          ? 'paddingX'
+          : side === 'Vertical' || side === 'Block'
+            ? 'paddingY'
+            : property;
+      return `<Box ${boxProp}={${value}}>`;
+    }
+    if (/(Left|Right|Horizontal|Inline|column)/.test(property)) {
+      return `<Inline space={${value}}>`;
+    }
+    if (/(Top|Bottom|Vertical|Block|row)/.test(property)) {
+      return `<Stack space={${value}}>`;
+    }
+    return `<Stack space={${value}}> ou <Inline space={${value}}>`;
+  }
+
+  private matchesPropertyContext(tokenName: string, property: string): boolean {
+    const name = tokenName.toLowerCase();
+    const prop = property.toLowerCase();
+    if (prop.includes('background')) return name.includes('background');
+    if (prop.includes('border')) return name.includes('border') || name.includes('divider');
+    if (prop === 'color' || prop === 'fill') return name.includes('text') || name.includes('neutral');
+    return false;
+  }
+
+  private findPropertyBefore(code: string, offset: number): string | null {
+    const lineStart = code.lastIndexOf('\n', offset - 1) + 1;
+    const before = code.slice(lineStart, offset);
+    const match = before.match(/([a-zA-Z-]+)\s*[:=]\s*[{'"`\s]*$/);
+    return match ? kebabToCamel(match[1]) : null;
+  }
+
+  private parseColor(value: string): Rgba | null {
+    const trimmed = value.trim();
+
+    const hex = trimmed.match(/^#([0-9a-fA-F]{3,8})$/);
+    if (hex) {
+      let digits = hex[1];
+      if (digits.length === 3 || digits.length === 4) {
+        digits = digits.split('').map(d => d + d).join('');
+      }
+      if (digits.length !== 6 && digits.length !== 8) return null;
+      return {
+        r: parseInt(digits.slice(0, 2), 16),
+        g: parseInt(digits.slice(2, 4), 16),
+        b: parseInt(digits.slice(4, 6), 16),
+        a: digits.length === 8 ? parseInt(digits.slice(6, 8), 16) / 255 : 1,
+      };
+    }
+
+    const rgb = trimmed.match(/^rgba?\(\s*(\d{1,3})\s*,\s*(\d{1,3})\s*,\s*(\d{1,3})\s*(?:,\s*([\d.]+)\s*)?\)$/i);
+    if (rgb) {
+      return { r: Number(rgb[1]), g: Number(rgb[2]), b: Number(rgb[3]), a: rgb[4] !== undefined ? Number(rgb[4]) : 1 };
+    }
+
+    return null;
+  }
+
+  private colorDistance(a: Rgba, b: Rgba): number {
+    return Math.sqrt((a.r - b.r) ** 2 + (a.g - b.g) ** 2 + (a.b - b.b) ** 2 + ((a.a - b.a) * 255) ** 2);
+  }
+
+  private nearest(value: number, scale: number[]): number {
+    return scale.reduce((best, current) => (Math.abs(current - value) < Math.abs(best - value) ? current : best));
+  }
+
+  /**
+   * 1 quando o valor coincide com a escala; cai proporcionalmente à
+   * diferença relativa nos demais casos
+   */
+  private numericConfidence(value: number, target: number): number {
+    if (value === target) return 1;
+    const relative = Math.abs(value - target) / Math.max(value, target, 1);
+    return this.round(Math.max(0, 0.9 - relative * 2));
+  }
+
+  private toPixels(value: number, unit: string): number {
+    return ['rem', 'em'].includes(unit.toLowerCase()) ? value * 16 : value;
+  }
+
+  private round(value: number): number {
+    return Math.round(value * 100) / 100;
+  }
+
+  private computeLineStarts(code: string): number[] {
+    const starts = [0];
+    for (let i = 0; i < code.length; i++) {
+      if (code[i] === '\n') starts.push(i + 1);
+    }
+    return starts;
+  }
+
+  private getPosition(lineStarts: number[], offset: number): SourcePosition {
+    let line = 0;
+    while (line + 1 < lineStarts.length && lineStarts[line + 1] <= offset) line++;
+    return { line: line + 1, column: offset - lineStarts[line] + 1 };
+  }
+}
@@ -0,0 +1,189 @@
+import ts from 'typescript';
+
+/**
+ * 🔎 MisticaJsxScanner - Localiza usos de componentes Mística em código TSX
+ *
+ * Responsabilidade: Fazer o parse de um snippet TSX com o compilador
+ * TypeScript e listar os imports de '@telefonica/mistica' e os elementos
+ * JSX que os utilizam, com posições para edição e diagnóstico.
+ */
+
+export const MISTICA_PACKAGE = '@telefonica/mistica';
+
+export interface SourcePosition {
+  line: number; // 1-based
+  column: number; // 1-based
+}
+
+export interface MisticaImport {
+  imported: string;
+  local: string;
+  isAliased: boolean;
+  importedStart: number;
+  importedEnd: number;
+  position: SourcePosition;
+}
+
+export interface JsxAttributeInfo {
+  name: string;
+  nameStart: number;
+  nameEnd: number;
+  start: number;
+  end: number;
+  initializer?: ts.JsxAttributeValue;
+  position: SourcePosition;
+}
+
+export interface MisticaJsxElement {
+  component: string; // nome exportado pelo Mística
+  local: string; // nome usado no código
+  tagRanges: Array<{ start: number; end: number }>;
+  attributes: JsxAttributeInfo[];
+  hasSpreadAttributes: boolean;
+  hasChildren: boolean;
+  position: SourcePosition;
+}
+
+export interface JsxScanResult {
+  sourceFile: ts.SourceFile;
+  // Programa só com o snippet, para resolver símbolos (escopo dos imports)
+  program: ts.Program;
+  imports: MisticaImport[];
+  elements: MisticaJsxElement[];
+  syntaxErrors: Array<{ message: string; position: SourcePosition }>;
+}
+
+export class MisticaJsxScanner {
+  scan(code: string, fileName: string = 'snippet.tsx'): JsxScanResult {
+    const sourceFile = ts.createSourceFile(fileName, code, ts.ScriptTarget.Latest, true, ts.ScriptKind.TSX);
+    const program = this.createProgram(sourceFile);
+
+    const imports = this.collectImports(sourceFile);
+    const importsByLocal = new Map(imports.map(i => [i.local, i]));
+    const elements: MisticaJsxElement[] = [];
+
+    const visit = (node: ts.Node) => {
+      if (ts.isJsxElement(node)) {
+        const element = this.toElement(node.openingElement, importsByLocal, sourceFile);
+        if (element) {
+          element.hasChildren = node.children.some(child => !ts.isJsxText(child) || !child.containsOnlyTriviaWhiteSpaces);
+          element.tagRanges.push(this.tagRange(node.closingElement.tagName, sourceFile));
+          elements.push(element);
+        }
+      } else if (ts.isJsxSelfClosingElement(node)) {
+        const element = this.toElement(node, importsByLocal, sourceFile);
+        if (element) elements.push(element);
+      }
+      ts.forEachChild(node, visit);
+    };
+    visit(sourceFile);
+
+    return { sourceFile, program, imports, elements, syntaxErrors: this.collectSyntaxErrors(program, sourceFile) };
+  }
+
+  getPosition(sourceFile: ts.SourceFile, offset: number): SourcePosition {
+    const { line, character } = sourceFile.getLineAndCharacterOfPosition(offset);
+    return { line: line + 1, column: character + 1 };
+  }
+
+  private collectImports(sourceFile: ts.SourceFile): MisticaImport[] {
+    const imports: MisticaImport[] = [];
+
+    for (const statement of sourceFile.statements) {
+      if (
+        !ts.isImportDeclaration(statement) ||
+        !ts.isStringLiteral(statement.moduleSpecifier) ||
+        statement.moduleSpecifier.text !== MISTICA_PACKAGE
+      ) {
+        continue;
+      }
+
+      const bindings = statement.importClause?.namedBindings;
+      if (!bindings || !ts.isNamedImports(bindings) || statement.importClause?.isTypeOnly) continue;
+
+      for (const specifier of bindings.elements) {
+        if (specifier.isTypeOnly) continue;
+        const importedNode = specifier.propertyName || specifier.name;
+        const importedStart = importedNode.getStart(sourceFile);
+        imports.push({
+          imported: importedNode.text,
+          local: specifier.name.text,
+          isAliased: !!specifier.propertyName,
+          importedStart,
+          importedEnd: importedNode.getEnd(),
+          position: this.getPosition(sourceFile, importedStart),
+        });
+      }
+    }
+
+    return imports;
+  }
+
+  private toElement(
+    node: ts.JsxOpeningElement | ts.JsxSelfClosingElement,
+    importsByLocal: Map<string, MisticaImport>,
+    sourceFile: ts.SourceFile
+  ): MisticaJsxElement | null {
+    if (!ts.isIdentifier(node.tagName)) return null;
+    const imported = importsByLocal.get(node.tagName.text);
+    if (!imported) return null;
+
+    const attributes: JsxAttributeInfo[] = [];
+    let hasSpreadAttributes = false;
+
+    for (const attribute of node.attributes.properties) {
+      if (ts.isJsxSpreadAttribute(attribute)) {
+        hasSpreadAttributes = true;
+        continue;
+      }
+      const nameStart = attribute.name.getStart(sourceFile);
+      attributes.push({
+        name: attribute.name.getText(sourceFile),
+        nameStart,
+        nameEnd: attribute.name.getEnd(),
+        start: attribute.getFullStart(),
+        end: attribute.getEnd(),
+        initializer: attribute.initializer,
+        position: this.getPosition(sourceFile, nameStart),
+      });
+    }
+
+    const tagStart = node.tagName.getStart(sourceFile);
+    return {
+      component: imported.imported,
+      local: imported.local,
+      tagRanges: [this.tagRange(node.tagName, sourceFile)],
+      attributes,
+      hasSpreadAttributes,
+      hasChildren: false,
+      position: this.getPosition(sourceFile, tagStart),
+    };
+  }
+
+  private tagRange(tagName: ts.JsxTagNameExpression, sourceFile: ts.SourceFile) {
+    return { start: tagName.getStart(sourceFile), end: tagName.getEnd() };
+  }
+
+  /**
+   * Programa isolado: sem lib e sem resolver módulos, o import do Mística
+   * continua sendo um símbolo local que o checker consegue rastrear
+   */
+  private createProgram(sourceFile: ts.SourceFile): ts.Program {
+    const options: ts.CompilerOptions = { noLib: true, noResolve: true, types: [], jsx: ts.JsxEmit.Preserve };
+    const host = ts.createCompilerHost(options);
+    const isSnippet = (name: string) => name === sourceFile.fileName;
+
+    host.getSourceFile = name => (isSnippet(name) ? sourceFile : undefined);
+    host.fileExists = isSnippet;
+    host.readFile = name => (isSnippet(name) ? sourceFile.text : undefined);
+
+    return ts.createProgram({ rootNames: [sourceFile.fileName], options, host });
+  }
+
+  private collectSyntaxErrors(program: ts.Program, sourceFile: ts.SourceFile): JsxScanResult['syntaxErrors'] {
+    return program.getSyntacticDiagnostics(sourceFile).map(diagnostic => ({
+      message: ts.flattenDiagnosticMessageText(diagnostic.messageText, '\n'),
+      position: this.getPosition(sourceFile, diagnostic.start),
+    }));
+  }
+}
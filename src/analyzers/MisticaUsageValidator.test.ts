@@ -0,0 +1,109 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { MisticaUsageValidator } from './MisticaUsageValidator.js';
+import type { ComponentProp, MisticaComponent } from '../types/mistica.js';
+
+function prop(name: string, type: string, required = false): ComponentProp {
+  return { name, type, required, description: '' };
+}
+
+const components: MisticaComponent[] = [
+  {
+    id: 'button-primary',
+    name: 'ButtonPrimary',
+    category: 'components',
+    description: 'Botão principal',
+    storyUrl: '',
+    lastUpdated: new Date(),
+    props: [
+      prop('children', 'ReactNode', true),
+      prop('onPress', '() => void'),
+      prop('small', 'boolean'),
+    ],
+  },
+  {
+    id: 'box',
+    name: 'Box',
+    category: 'layout',
+    description: 'Caixa com padding',
+    storyUrl: '',
+    lastUpdated: new Date(),
+    props: [prop('padding', '0 | 2 | 4 | 8 | 12 | 16 | 24'), prop('children', 'ReactNode')],
+  },
+];
+
+function rulesOf(code: string): string[] {
+  return new MisticaUsageValidator()
+    .validate(code, components)
+    .issues.map(issue => `${issue.rule}:${issue.prop ?? issue.component}`);
+}
+
+describe('MisticaUsageValidator', () => {
+  test('aceita uso válido, incluindo atributos data-* e aria-*', () => {
+    const result = new MisticaUsageValidator().validate(
+      [
+        "import { ButtonPrimary } from '@telefonica/mistica';",
+        'export const A = () => (',
+        '  <ButtonPrimary data-testid="ok" aria-label="Confirmar" onPress={() => {}}>Ok</ButtonPrimary>',
+        ');',
+      ].join('\n'),
+      components
+    );
+
+    assert.deepEqual(result.issues, []);
+    assert.equal(result.valid, true);
+    assert.equal(result.checkedElements, 1);
+  });
+
+  test('aponta export inexistente e prop desconhecida com sugestão', () => {
+    const result = new MisticaUsageValidator().validate(
+      [
+        "import { ButtonPrimary, Boxx } from '@telefonica/mistica';",
+        'export const A = () => <ButtonPrimary onPres={() => {}}>Ok</ButtonPrimary>;',
+      ].join('\n'),
+      components
+    );
+
+    assert.equal(result.valid, false);
+    assert.deepEqual(
+      result.issues.map(issue => [issue.rule, issue.suggestion]),
+      [
+        ['unknown-export', 'Você quis dizer Box?'],
+        ['unknown-prop', 'Você quis dizer onPress?'],
+      ]
+    );
+  });
+
+  test('exige props obrigatórias, exceto quando há spread', () => {
+    assert.deepEqual(
+      rulesOf("import { ButtonPrimary } from '@telefonica/mistica';\nconst a = <ButtonPrimary />;"),
+      ['missing-required-prop:children']
+    );
+    assert.deepEqual(
+      rulesOf("import { ButtonPrimary } from '@telefonica/mistica';\nconst a = <ButtonPrimary {...props} />;"),
+      []
+    );
+  });
+
+  test('valida valores literais contra a union da prop', () => {
+    const result = new MisticaUsageValidator().validate(
+      "import { Box } from '@telefonica/mistica';\nconst a = <Box padding={17} />;",
+      components
+    );
+
+    assert.deepEqual(
+      result.issues.map(issue => [issue.rule, issue.suggestion]),
+      [['invalid-prop-value', 'Use padding={16}']]
+    );
+  });
+
+  test('reporta erros de sintaxe do snippet', () => {
+    const result = new MisticaUsageValidator().validate(
+      "import { Box } from '@telefonica/mistica';\nconst a = <Box>;",
+      components
+    );
+
+    assert.equal(result.valid, false);
+    assert.ok(result.issues.some(issue => issue.rule === 'syntax-error'));
+  });
+});
@@ -0,0 +1,290 @@
+import ts from 'typescript';
+import type { ComponentProp, MisticaComponent } from '../types/mistica.js';
+import { MisticaJsxScanner } from './MisticaJsxScanner.js';
+import type { JsxAttributeInfo, MisticaJsxElement, SourcePosition } from './MisticaJsxScanner.js';
+import { findClosestMatch } from '../utils/helpers.js';
+
+/**
+ * ✅ MisticaUsageValidator - Valida o uso de componentes Mística em TSX
+ *
+ * Responsabilidade: Conferir os elementos importados de
+ * '@telefonica/mistica' contra as props extraídas do pacote instalado,
+ * apontando imports inexistentes, props desconhecidas, props obrigatórias
+ * ausentes e valores literais fora da union aceita.
+ */
+
+export type UsageIssueRule =
+  | 'syntax-error'
+  | 'unknown-export'
+  | 'unknown-prop'
+  | 'missing-required-prop'
+  | 'invalid-prop-value'
+  | 'deprecated';
+
+export interface UsageIssue {
+  severity: 'error' | 'warning';
+  rule: UsageIssueRule;
+  component?: string;
+  prop?: string;
+  message: string;
+  suggestion?: string;
+  position: SourcePosition;
+}
+
+export interface UsageValidationResult {
+  valid: boolean;
+  checkedElements: number;
+  issues: UsageIssue[];
+}
+
+type LiteralValue = { kind: 'string'; value: string } | { kind: 'number'; value: number };
+
+// Aceitas por qualquer componente React
+const ALWAYS_ALLOWED_PROPS = new Set(['key', 'ref']);
+
+export class MisticaUsageValidator {
+  private scanner = new MisticaJsxScanner();
+
+  validate(code: string, components: MisticaComponent[]): UsageValidationResult {
+    const { imports, elements, syntaxErrors } = this.scanner.scan(code);
+    const byExport = new Map(components.map(c => [c.npmInfo?.exportName || c.name, c]));
+    const exportNames = [...byExport.keys()];
+    const issues: UsageIssue[] = [];
+
+    syntaxErrors.forEach(error =>
+      issues.push({ severity: 'error', rule: 'syntax-error', message: error.message, position: error.position })
+    );
+
+    for (const specifier of imports) {
+      if (byExport.has(specifier.imported)) continue;
+      const suggestion = findClosestMatch(specifier.imported, exportNames);
+      issues.push({
+        severity: 'error',
+        rule: 'unknown-export',
+        component: specifier.imported,
+        message: `${specifier.imported} não é exportado por @telefonica/mistica`,
+        suggestion: suggestion && `Você quis dizer ${suggestion}?`,
+        position: specifier.position,
+      });
+    }
+
+    for (const element of elements) {
+      const component = byExport.get(element.component);
+      if (!component) continue;
+      issues.push(...this.validateElement(element, component));
+    }
+
+    issues.sort((a, b) => a.position.line - b.position.line || a.position.column - b.position.column);
+
+    return {
+      valid: !issues.some(issue => issue.severity === 'error'),
+      checkedElements: elements.length,
+      issues,
+    };
+  }
+
+  private validateElement(element: MisticaJsxElement, component: MisticaComponent): UsageIssue[] {
+    const issues: UsageIssue[] = [];
+    const name = element.component;
+
+    if (component.deprecation) {
+      issues.push({
+        severity: 'warning',
+        rule: 'deprecated',
+        component: name,
+        message: `${name} está depreciado: ${component.deprecation.message}`,
+        suggestion: component.deprecation.replacement && `Use ${component.deprecation.replacement}`,
+        position: element.position,
+      });
+    }
+
+    // Sem props resolvidas não há como validar os atributos
+    if (!component.props || component.props.length === 0) {
+      return issues;
+    }
+
+    const props = new Map(component.props.map(p => [p.name, p]));
+    const propNames = [...props.keys()];
+
+    for (const attribute of element.attributes) {
+      const prop = props.get(attribute.name);
+
+      if (!prop) {
+        // Atributos com hífen (data-*, aria-*) são aceitos pelo TypeScript em JSX
+        if (ALWAYS_ALLOWED_PROPS.has(attribute.name) || attribute.name.includes('-')) continue;
+        const suggestion = findClosestMatch(attribute.name, propNames);
+        issues.push({
+          severity: 'error',
+          rule: 'unknown-prop',
+          component: name,
+          prop: attribute.name,
+          message: `${name} não aceita a prop ${attribute.name}`,
+          suggestion: suggestion && `Você quis dizer ${suggestion}?`,
+          position: attribute.position,
+        });
+        continue;
+      }
+
+      if (prop.deprecation) {
+        issues.push({
+          severity: 'warning',
+          rule: 'deprecated',
+          component: name,
+          prop: prop.name,
+          message: `${name}.${prop.name} está depreciada: ${prop.deprecation.message}`,
+          suggestion: prop.deprecation.replacement && `Use ${prop.deprecation.replacement}`,
+          position: attribute.position,
+        });
+      }
+
+      const valueIssue = this.validateValue(attribute, prop, name);
+      if (valueIssue) issues.push(valueIssue);
+    }
+
+    // Com spread as props podem estar sendo repassadas
+    if (!element.hasSpreadAttributes) {
+      const provided = new Set(element.attributes.map(a => a.name));
+      if (element.hasChildren) provided.add('children');
+
+      component.props
+        .filter(prop => prop.required && !provided.has(prop.name))
+        .forEach(prop =>
+          issues.push({
+            severity: 'error',
+            rule: 'missing-required-prop',
+            component: name,
+            prop: prop.name,
+            message: `${name} exige a prop ${prop.name} (${prop.type})`,
+            position: element.position,
+          })
+        );
+    }
+
+    return issues;
+  }
+
+  /**
+   * Só valida valores literais (`variant="foo"`, `space={17}`); expressões
+   * dependem de tipos que não estão disponíveis no snippet
+   */
+  private validateValue(attribute: JsxAttributeInfo, prop: ComponentProp, component: string): UsageIssue | null {
+    const value = this.readLiteral(attribute.initializer);
+    if (!value) return null;
+
+    const members = this.splitUnion(prop.type);
+    const accepted = members.some(member => this.acceptsLiteral(member, value));
+    if (accepted) return null;
+
+    const literals = members.filter(member => this.parseLiteral(member) !== null);
+    const shown = value.kind === 'string' ? `"${value.value}"` : String(value.value);
+    const suggestion =
+      value.kind === 'number'
+        ? this.closestNumber(value.value, literals)
+        : findClosestMatch(value.value, literals.map(l => l.replace(/^"|"$/g, '')));
+
+    return {
+      severity: 'error',
+      rule: 'invalid-prop-value',
+      component,
+      prop: prop.name,
+      message: `Valor ${shown} inválido para ${component}.${prop.name}. Aceitos: ${prop.type}`,
+      suggestion: suggestion !== undefined ? `Use ${prop.name}=${this.formatSuggestion(value, suggestion)}` : undefined,
+      position: attribute.position,
+    };
+  }
+
+  private readLiteral(initializer?: ts.JsxAttributeValue): LiteralValue | null {
+    if (!initializer) return null;
+    if (ts.isStringLiteral(initializer)) return { kind: 'string', value: initializer.text };
+    if (!ts.isJsxExpression(initializer) || !initializer.expression) return null;
+
+    const expression = initializer.expression;
+    if (ts.isStringLiteral(expression) || ts.isNoSubstitutionTemplateLiteral(expression)) {
+      return { kind: 'string', value: expression.text };
+    }
+    if (ts.isNumericLiteral(expression)) {
+      return { kind: 'number', value: Number(expression.text) };
+    }
+    if (
+      ts.isPrefixUnaryExpression(expression) &&
+      expression.operator === ts.SyntaxKind.MinusToken &&
+      ts.isNumericLiteral(expression.operand)
+    ) {
+      return { kind: 'number', value: -Number(expression.operand.text) };
+    }
+    return null;
+  }
+
+  /**
+   * Indica se um membro da union aceita o literal. Tipos nomeados que não
+   * dá para expandir (aliases, ReactNode) são considerados compatíveis.
+   */
+  private acceptsLiteral(member: string, value: LiteralValue): boolean {
+    const literal = this.parseLiteral(member);
+    if (literal) return literal.kind === value.kind && literal.value === value.value;
+
+    if (['any', 'unknown', value.kind].includes(member)) return true;
+    if (member.startsWith('`')) return value.kind === 'string';
+    if (
+      ['boolean', 'true', 'false', 'null', 'undefined', 'never', 'string', 'number', 'object'].includes(member) ||
+      member.startsWith('{') ||
+      member.startsWith('(') ||
+      member.endsWith('[]')
+    ) {
+      return false;
+    }
+    return true;
+  }
+
+  private parseLiteral(member: string): LiteralValue | null {
+    const stringMatch = member.match(/^"(.*)"$/) || member.match(/^'(.*)'$/);
+    if (stringMatch) return { kind: 'string', value: stringMatch[1] };
+    if (/^-?\d+(\.\d+)?$/.test(member)) return { kind: 'number', value: Number(member) };
+    return null;
+  }
+
+  /**
+   * Separa os membros de uma union respeitando parênteses, chaves,
+   * colchetes, genéricos e strings
+   */
+  private splitUnion(type: string): string[] {
+    const members: string[] = [];
+    let depth = 0;
+    let quote: string | null = null;
+    let current = '';
+
+    for (const char of type) {
+      if (quote) {
+        if (char === quote) quote = null;
+      } else if (char === '"' || char === "'" || char === '`') {
+        quote = char;
+      } else if ('({[<'.includes(char)) {
+        depth++;
+      } else if (')}]>'.includes(char) && !(char === '>' && current.endsWith('='))) {
+        depth--;
+      } else if (char === '|' && depth === 0) {
+        members.push(current.trim());
+        current = '';
+        continue;
+      }
+      current += char;
+    }
+    members.push(current.trim());
+
+    return members.filter(Boolean);
+  }
+
+  private closestNumber(value: number, literals: string[]): string | undefined {
+    const numbers = literals.map(l => this.parseLiteral(l)).filter((l): l is LiteralValue => l?.kind === 'number');
+    if (numbers.length === 0) return undefined;
+    return String(
+      numbers.reduce((best, current) =>
+        Math.abs((current.value as number) - value) < Math.abs((best.value as number) - value) ? current : best
+      ).value
+    );
+  }
+
+  private formatSuggestion(value: LiteralValue, suggestion: string): string {
+    return value.kind === 'number' ? `{${suggestion}}` : `"${suggestion}"`;
+  }
+}
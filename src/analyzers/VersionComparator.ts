@@ -0,0 +1,349 @@
+import type {
+  ComponentProp,
+  DeprecationInfo,
+  MisticaComponent,
+} from '../types/mistica.js';
+
+/**
+ * 🔀 VersionComparator - Compara a API pública de duas versões do Mística
+ *
+ * Responsabilidade: A partir da análise de exports e props de duas versões,
+ * gerar um changelog estruturado (exports adicionados, removidos e
+ * renomeados, props que passaram a ser obrigatórias, mudanças de tipo e
+ * novas depreciações).
+ */
+
+export interface RenamedItem {
+  from: string;
+  to: string;
+  reason: string;
+}
+
+export interface TypeChange {
+  prop: string;
+  from: string;
+  to: string;
+}
+
+export interface ComponentChange {
+  component: string;
+  addedProps: string[];
+  removedProps: string[];
+  removedPropTypes: Record<string, string>;
+  renamedProps: RenamedItem[];
+  newlyRequiredProps: string[];
+  typeChanges: TypeChange[];
+}
+
+export interface DeprecationChange extends DeprecationInfo {
+  component: string;
+  prop?: string;
+}
+
+export interface MisticaChangelog {
+  fromVersion: string;
+  toVersion: string;
+  addedExports: string[];
+  removedExports: string[];
+  renamedExports: RenamedItem[];
+  componentChanges: ComponentChange[];
+  newlyDeprecated: DeprecationChange[];
+  summary: {
+    addedExports: number;
+    removedExports: number;
+    renamedExports: number;
+    changedComponents: number;
+    newlyRequiredProps: number;
+    typeChanges: number;
+    newlyDeprecated: number;
+    breaking: boolean;
+  };
+}
+
+// Pontuação mínima para considerar um par removido/adicionado como renomeação
+const RENAME_THRESHOLD = 50;
+
+export class VersionComparator {
+  compare(
+    fromVersion: string,
+    fromComponents: MisticaComponent[],
+    toVersion: string,
+    toComponents: MisticaComponent[]
+  ): MisticaChangelog {
+    const fromMap = this.indexByExport(fromComponents);
+    const toMap = this.indexByExport(toComponents);
+
+    let removed = [...fromMap.keys()].filter(name => !toMap.has(name));
+    let added = [...toMap.keys()].filter(name => !fromMap.has(name));
+
+    const renamedExports = this.detectRenamedExports(removed, added, fromMap, toMap);
+    const renamedFrom = new Set(renamedExports.map(r => r.from));
+    const renamedTo = new Set(renamedExports.map(r => r.to));
+    removed = removed.filter(name => !renamedFrom.has(name));
+    added = added.filter(name => !renamedTo.has(name));
+
+    // Componentes presentes nas duas versões (incluindo os renomeados)
+    const pairs: Array<[MisticaComponent, MisticaComponent]> = [];
+    for (const [name, oldComponent] of fromMap) {
+      const newComponent = toMap.get(name);
+      if (newComponent) pairs.push([oldComponent, newComponent]);
+    }
+    for (const rename of renamedExports) {
+      pairs.push([fromMap.get(rename.from)!, toMap.get(rename.to)!]);
+    }
+
+    const componentChanges: ComponentChange[] = [];
+    const newlyDeprecated: DeprecationChange[] = [];
+
+    for (const [oldComponent, newComponent] of pairs) {
+      const change = this.compareProps(oldComponent, newComponent);
+      if (this.hasChanges(change)) componentChanges.push(change);
+      newlyDeprecated.push(...this.findNewDeprecations(oldComponent, newComponent));
+    }
+    for (const name of added) {
+      const component = toMap.get(name)!;
+      if (component.deprecation) {
+        newlyDeprecated.push({ component: name, ...component.deprecation });
+      }
+    }
+
+    const newlyRequiredProps = componentChanges.reduce((sum, c) => sum + c.newlyRequiredProps.length, 0);
+    const typeChanges = componentChanges.reduce((sum, c) => sum + c.typeChanges.length, 0);
+    const removedProps = componentChanges.reduce((sum, c) => sum + c.removedProps.length + c.renamedProps.length, 0);
+
+    return {
+      fromVersion,
+      toVersion,
+      addedExports: added.sort(),
+      removedExports: removed.sort(),
+      renamedExports,
+      componentChanges: componentChanges.sort((a, b) => a.component.localeCompare(b.component)),
+      newlyDeprecated,
+      summary: {
+        addedExports: added.length,
+        removedExports: removed.length,
+        renamedExports: renamedExports.length,
+        changedComponents: componentChanges.length,
+        newlyRequiredProps,
+        typeChanges,
+        newlyDeprecated: newlyDeprecated.length,
+        breaking:
+          removed.length > 0 ||
+          renamedExports.length > 0 ||
+          newlyRequiredProps > 0 ||
+          typeChanges > 0 ||
+          removedProps > 0,
+      },
+    };
+  }
+
+  private indexByExport(components: MisticaComponent[]): Map<string, MisticaComponent> {
+    const map = new Map<string, MisticaComponent>();
+    components.forEach(component => {
+      map.set(component.npmInfo?.exportName || component.name, component);
+    });
+    return map;
+  }
+
+  /**
+   * Pareia exports removidos com adicionados usando a dica da tag
+   * @deprecated, o módulo de origem, a semelhança das props e do nome
+   */
+  private detectRenamedExports(
+    removed: string[],
+    added: string[],
+    fromMap: Map<string, MisticaComponent>,
+    toMap: Map<string, MisticaComponent>
+  ): RenamedItem[] {
+    const candidates: Array<RenamedItem & { score: number }> = [];
+
+    for (const oldName of removed) {
+      const oldComponent = fromMap.get(oldName)!;
+      for (const newName of added) {
+        const newComponent = toMap.get(newName)!;
+        const reasons: string[] = [];
+        let score = 0;
+
+        if (oldComponent.deprecation?.replacement === newName) {
+          score += 100;
+          reasons.push('indicado na tag @deprecated');
+        }
+        if (oldComponent.npmInfo?.source && oldComponent.npmInfo.source === newComponent.npmInfo?.source) {
+          score += 30;
+          reasons.push(`mesmo módulo ${oldComponent.npmInfo.source}`);
+        }
+        const propSimilarity = this.propSimilarity(oldComponent.props || [], newComponent.props || []);
+        if (propSimilarity >= 0.6) {
+          score += Math.round(propSimilarity * 40);
+          reasons.push(`${Math.round(propSimilarity * 100)}% das props em comum`);
+        }
+        const nameSimilarity = this.nameSimilarity(oldName, newName);
+        if (nameSimilarity >= 0.5) {
+          score += Math.round(nameSimilarity * 30);
+          reasons.push('nome semelhante');
+        }
+
+        if (score >= RENAME_THRESHOLD) {
+          candidates.push({ from: oldName, to: newName, reason: reasons.join(', '), score });
+        }
+      }
+    }
+
+    return this.pickBestPairs(candidates);
+  }
+
+  private compareProps(oldComponent: MisticaComponent, newComponent: MisticaComponent): ComponentChange {
+    const oldProps = new Map((oldComponent.props || []).map(p => [p.name, p]));
+    const newProps = new Map((newComponent.props || []).map(p => [p.name, p]));
+
+    let removedProps = [...oldProps.keys()].filter(name => !newProps.has(name));
+    let addedProps = [...newProps.keys()].filter(name => !oldProps.has(name));
+
+    const renamedProps = this.detectRenamedProps(removedProps, addedProps, oldProps, newProps);
+    removedProps = removedProps.filter(name => !renamedProps.some(r => r.from === name));
+    addedProps = addedProps.filter(name => !renamedProps.some(r => r.to === name));
+
+    const newlyRequiredProps: string[] = [];
+    const typeChanges: TypeChange[] = [];
+
+    for (const [name, newProp] of newProps) {
+      const oldName = renamedProps.find(r => r.to === name)?.from || name;
+      const oldProp = oldProps.get(oldName);
+
+      if (newProp.required && (!oldProp || !oldProp.required)) {
+        newlyRequiredProps.push(name);
+      }
+      if (oldProp && this.normalizeType(oldProp.type) !== this.normalizeType(newProp.type)) {
+        typeChanges.push({ prop: name, from: oldProp.type, to: newProp.type });
+      }
+    }
+
+    const removedPropTypes: Record<string, string> = {};
+    removedProps.forEach(name => {
+      removedPropTypes[name] = oldProps.get(name)!.type;
+    });
+
+    return {
+      component: newComponent.npmInfo?.exportName || newComponent.name,
+      addedProps,
+      removedProps,
+      removedPropTypes,
+      renamedProps,
+      newlyRequiredProps,
+      typeChanges,
+    };
+  }
+
+  private detectRenamedProps(
+    removed: string[],
+    added: string[],
+    oldProps: Map<string, ComponentProp>,
+    newProps: Map<string, ComponentProp>
+  ): RenamedItem[] {
+    const candidates: Array<RenamedItem & { score: number }> = [];
+
+    for (const oldName of removed) {
+      const oldProp = oldProps.get(oldName)!;
+      for (const newName of added) {
+        const newProp = newProps.get(newName)!;
+        const reasons: string[] = [];
+        let score = 0;
+
+        if (oldProp.deprecation?.replacement === newName) {
+          score += 100;
+          reasons.push('indicado na tag @deprecated');
+        }
+        const sameType = this.normalizeType(oldProp.type) === this.normalizeType(newProp.type);
+        const nameSimilarity = this.nameSimilarity(oldName, newName);
+        if (sameType && nameSimilarity >= 0.3) {
+          score += 30 + Math.round(nameSimilarity * 40);
+          reasons.push('mesmo tipo e nome semelhante');
+        }
+
+        if (score >= RENAME_THRESHOLD) {
+          candidates.push({ from: oldName, to: newName, reason: reasons.join(', '), score });
+        }
+      }
+    }
+
+    return this.pickBestPairs(candidates);
+  }
+
+  private findNewDeprecations(oldComponent: MisticaComponent, newComponent: MisticaComponent): DeprecationChange[] {
+    const componentName = newComponent.npmInfo?.exportName || newComponent.name;
+    const result: DeprecationChange[] = [];
+
+    if (newComponent.deprecation && !oldComponent.deprecation) {
+      result.push({ component: componentName, ...newComponent.deprecation });
+    }
+
+    const oldProps = new Map((oldComponent.props || []).map(p => [p.name, p]));
+    for (const prop of newComponent.props || []) {
+      if (prop.deprecation && !oldProps.get(prop.name)?.deprecation) {
+        result.push({ component: componentName, prop: prop.name, ...prop.deprecation });
+      }
+    }
+
+    return result;
+  }
+
+  private pickBestPairs(candidates: Array<RenamedItem & { score: number }>): RenamedItem[] {
+    const usedFrom = new Set<string>();
+    const usedTo = new Set<string>();
+
+    return candidates
+      .sort((a, b) => b.score - a.score)
+      .filter(candidate => {
+        if (usedFrom.has(candidate.from) || usedTo.has(candidate.to)) return false;
+        usedFrom.add(candidate.from);
+        usedTo.add(candidate.to);
+        return true;
+      })
+      .map(({ from, to, reason }) => ({ from, to, reason }));
+  }
+
+  private hasChanges(change: ComponentChange): boolean {
+    return (
+      change.addedProps.length > 0 ||
+      change.removedProps.length > 0 ||
+      change.renamedProps.length > 0 ||
+      change.newlyRequiredProps.length > 0 ||
+      change.typeChanges.length > 0
+    );
+  }
+
+  private propSimilarity(a: ComponentProp[], b: ComponentProp[]): number {
+    if (!a.length || !b.length) return 0;
+    const namesA = new Set(a.map(p => p.name));
+    const namesB = new Set(b.map(p => p.name));
+    const intersection = [...namesA].filter(name => namesB.has(name)).length;
+    return intersection / new Set([...namesA, ...namesB]).size;
+  }
+
+  /**
+   * Semelhança entre nomes camelCase pela proporção de palavras em comum
+   */
+  private nameSimilarity(a: string, b: string): number {
+    const wordsA = this.splitWords(a);
+    const wordsB = this.splitWords(b);
+    if (!wordsA.length || !wordsB.length) return 0;
+    const common = wordsA.filter(word => wordsB.includes(word)).length;
+    return common / Math.max(wordsA.length, wordsB.length);
+  }
+
+  private splitWords(name: string): string[] {
+    return name
+      .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+      .toLowerCase()
+      .split(/[\s_-]+/)
+      .filter(Boolean);
+  }
+
+  private normalizeType(type: string): string {
+    return type
+      .split('|')
+      .map(part => part.replace(/\s+/g, '').replace(/'/g, '"'))
+      .sort()
+      .join('|');
+  }
+}
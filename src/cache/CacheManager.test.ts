@@ -0,0 +1,148 @@
+import { after, before, describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { promises as fs } from "fs";
+import os from "os";
+import path from "path";
+import {
+  CacheManager,
+  createCacheBackend,
+  getCacheNamespace,
+} from "./CacheManager.js";
+import { FileCacheBackend } from "./FileCacheBackend.js";
+import type { CacheBackend, CacheBackendName } from "../types/cache.js";
+
+const hasSqlite = await import("node:sqlite").then(
+  () => true,
+  () => false
+);
+
+const BACKENDS: CacheBackendName[] = ["memory", "file", "sqlite"];
+
+for (const backendName of BACKENDS) {
+  const skip = backendName === "sqlite" && !hasSqlite && "requer node:sqlite";
+
+  describe(`CacheManager (${backendName})`, { skip }, () => {
+    let dir: string;
+    let cache: CacheManager;
+
+    before(async () => {
+      dir = await fs.mkdtemp(path.join(os.tmpdir(), "mistica-cache-test-"));
+      cache = new CacheManager(createCacheBackend(backendName, dir));
+      await cache.init();
+    });
+
+    after(async () => {
+      await fs.rm(dir, { recursive: true, force: true });
+    });
+
+    test("grava, lê e remove entradas", async () => {
+      await cache.set("componentes", [{ name: "ButtonPrimary" }]);
+
+      assert.deepEqual(await cache.get("componentes"), [{ name: "ButtonPrimary" }]);
+      assert.equal(await cache.has("componentes"), true);
+      assert.deepEqual(await cache.getKeys(), ["componentes"]);
+
+      await cache.delete("componentes");
+      assert.equal(await cache.get("componentes"), null);
+      assert.deepEqual(await cache.getKeys(), []);
+    });
+
+    test("entrada vencida some de get, mas getEntry a devolve como stale", async () => {
+      const backend = createCacheBackend(backendName, dir);
+      const expired = new CacheManager(backend);
+      await backend.write("tokens", {
+        data: ["color"],
+        timestamp: new Date(Date.now() - 120_000),
+        expiry: new Date(Date.now() - 60_000),
+      });
+
+      const entry = await expired.getEntry<string[]>("tokens");
+      assert.ok(entry);
+      assert.equal(entry.stale, true);
+      assert.deepEqual(entry.data, ["color"]);
+
+      assert.equal(await new CacheManager(backend).get("tokens"), null);
+    });
+
+    test("clear remove todas as entradas", async () => {
+      await cache.set("a", 1);
+      await cache.set("b", 2);
+      await cache.clear();
+
+      assert.deepEqual(await cache.getKeys(), []);
+      assert.equal(await cache.get("a"), null);
+    });
+  });
+}
+
+function namespaced(backend: CacheBackend, misticaVersion: string) {
+  return new CacheManager(backend, undefined, {
+    namespace: getCacheNamespace(misticaVersion),
+  });
+}
+
+describe("CacheManager (file) entre instâncias", () => {
+  let dir: string;
+
+  before(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), "mistica-cache-test-"));
+  });
+
+  after(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  test("revive datas gravadas no disco, inclusive dentro dos dados", async () => {
+    const lastUpdated = new Date("2024-05-01T10:00:00.000Z");
+    const writer = new CacheManager(new FileCacheBackend(dir));
+    await writer.set("componentes", [{ name: "ButtonPrimary", lastUpdated }]);
+
+    // Instância nova: a leitura vem do disco, não da camada em memória
+    const reader = new CacheManager(new FileCacheBackend(dir));
+    const components = await reader.get<Array<{ lastUpdated: Date }>>(
+      "componentes"
+    );
+
+    assert.ok(components);
+    assert.ok(components[0].lastUpdated instanceof Date);
+    assert.equal(components[0].lastUpdated.getTime(), lastUpdated.getTime());
+  });
+});
+
+describe("CacheManager com namespace", () => {
+  test("o namespace inclui a versão do schema e a do Mística", () => {
+    assert.match(getCacheNamespace("16.39.0"), /^v\d+-mistica-16-39-0$/);
+    assert.notEqual(getCacheNamespace("16.39.0"), getCacheNamespace("16.40.0"));
+  });
+
+  test("versões diferentes não enxergam as entradas uma da outra", async () => {
+    const backend = createCacheBackend("memory");
+    const current = namespaced(backend, "16.39.0");
+    const previous = namespaced(backend, "16.38.0");
+
+    await previous.set("componentes", ["antigo"]);
+    await current.set("componentes", ["novo"]);
+
+    assert.deepEqual(await current.get("componentes"), ["novo"]);
+    assert.deepEqual(await previous.get("componentes"), ["antigo"]);
+    assert.deepEqual(await current.getKeys(), ["componentes"]);
+  });
+
+  test("init remove as entradas de outros namespaces", async () => {
+    const backend = createCacheBackend("memory");
+    await namespaced(backend, "16.38.0").set("componentes", ["antigo"]);
+    await backend.write("sem_namespace", {
+      data: 1,
+      timestamp: new Date(),
+      expiry: new Date(Date.now() + 60_000),
+    });
+
+    const current = namespaced(backend, "16.39.0");
+    await current.set("componentes", ["novo"]);
+    await current.init();
+
+    assert.deepEqual(await backend.keys(), [
+      `${getCacheNamespace("16.39.0")}__componentes`,
+    ]);
+  });
+});
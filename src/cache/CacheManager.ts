@@ -1,71 +1,226 @@
-import { promises as fs } from "fs";
 import path from "path";
 import { fileURLToPath } from "url";
-import type { CacheEntry } from "../types/mistica.js";
+import type {
+  Cache,
+  CacheBackend,
+  CacheBackendName,
+  CacheEntry,
+  CacheEntryStatus,
+  CacheManagerOptions,
+  CacheMemoryBudget,
+  CacheStats,
+  CachedValue,
+} from "../types/cache.js";
+import { FileCacheBackend } from "./FileCacheBackend.js";
+import { MemoryCacheBackend } from "./MemoryCacheBackend.js";
+import { SqliteCacheBackend } from "./SqliteCacheBackend.js";
+import { LruMemoryTier } from "./LruMemoryTier.js";
+import { readInstalledMisticaVersion } from "../scraper/MisticaNpmAnalyzer.js";
 
-export class CacheManager {
-  private cacheDir: string;
+/**
+ * Versão do formato dos dados em cache. Incrementar quando MisticaComponent,
+ * DesignToken ou MisticaIcon mudarem de forma incompatível.
+ * v2: datas serializadas como `{"$date": ...}` e revividas na leitura.
+ */
+export const CACHE_SCHEMA_VERSION = 2;
+
+export const DEFAULT_MEMORY_BUDGET: CacheMemoryBudget = {
+  maxEntries: 100,
+  maxBytes: 50 * 1024 * 1024,
+};
+
+const NAMESPACE_SEPARATOR = "__";
+
+/**
+ * Diretório padrão do cache: `<raiz do servidor>/data/cache`
+ */
+export function getDefaultCacheDir(): string {
+  const currentDir = path.dirname(fileURLToPath(import.meta.url));
+  const mcpServerRoot = path.resolve(currentDir, "../../"); // src/cache -> root
+  return path.join(mcpServerRoot, "data", "cache");
+}
+
+/**
+ * Prefixo das chaves: versão do schema + versão do Mística instalado. Só usa
+ * caracteres preservados pelo backend de arquivos.
+ */
+export function getCacheNamespace(
+  misticaVersion: string | undefined = readInstalledMisticaVersion()
+): string {
+  const version = (misticaVersion || "unknown").replace(/[^a-zA-Z0-9-]/g, "-");
+  return `v${CACHE_SCHEMA_VERSION}-mistica-${version}`;
+}
+
+export function createCacheBackend(
+  name: CacheBackendName,
+  cacheDir: string = getDefaultCacheDir()
+): CacheBackend {
+  switch (name) {
+    case "memory":
+      return new MemoryCacheBackend();
+    case "file":
+      return new FileCacheBackend(cacheDir);
+    case "sqlite":
+      return new SqliteCacheBackend(path.join(cacheDir, "cache.sqlite"));
+  }
+}
+
+/**
+ * 💾 CacheManager - Cache com TTL (em minutos) sobre um backend plugável
+ *
+ * Responsabilidade: Implementar a interface `Cache` usada pelo restante do
+ * servidor, com expiração das entradas e uma camada LRU em memória, com
+ * orçamento de entradas e bytes, na frente do backend (memória, arquivos
+ * JSON ou SQLite).
+ *
+ * Com um namespace (ver `getCacheNamespace`), as chaves são gravadas como
+ * `<namespace>__<chave>` e `init()` remove as entradas de outros namespaces,
+ * ou seja, de outra versão do pacote ou do schema.
+ */
+export class CacheManager implements Cache {
+  private backend: CacheBackend;
   private defaultTTL: number;
-  private memoryCache: Map<string, { data: any; expiry: Date }> = new Map();
+  private memoryCache: LruMemoryTier;
+  private hits = 0;
+  private misses = 0;
+  private namespace?: string;
 
-  constructor(cacheDir?: string, defaultTTL: number = 60) {
-    if (cacheDir) {
-      this.cacheDir = path.resolve(cacheDir);
-    } else {
-      const currentFileUrl = import.meta.url;
-      const currentDir = path.dirname(fileURLToPath(currentFileUrl));
-      const mcpServerRoot = path.resolve(currentDir, "../../"); // src/cache -> root
-      this.cacheDir = path.join(mcpServerRoot, "data", "cache");
-    }
+  /**
+   * Aceita um backend ou um diretório (backend de arquivos, o padrão)
+   */
+  constructor(
+    backend?: CacheBackend | string,
+    defaultTTL: number = 60,
+    options: CacheManagerOptions = {}
+  ) {
+    this.backend =
+      typeof backend === "object"
+        ? backend
+        : new FileCacheBackend(backend || getDefaultCacheDir());
     this.defaultTTL = defaultTTL;
-    this.ensureCacheDir();
+    this.namespace = options.namespace;
+    this.memoryCache = new LruMemoryTier({
+      ...DEFAULT_MEMORY_BUDGET,
+      ...options.memory,
+    });
   }
 
-  private async ensureCacheDir(): Promise<void> {
-    try {
-      await fs.mkdir(this.cacheDir, { recursive: true });
-      console.log(`📁 Cache configurado em: ${this.cacheDir}`);
-    } catch (error) {
-      console.error("Erro ao criar diretório de cache:", error);
+  /**
+   * Prepara o backend (diretório, banco SQLite) e falha cedo se ele não
+   * estiver disponível; em seguida descarta entradas de outros namespaces
+   */
+  async init(): Promise<void> {
+    await this.backend.init?.();
+    await this.purgeOtherNamespaces();
+  }
+
+  getNamespace(): string | undefined {
+    return this.namespace;
+  }
+
+  private toBackendKey(key: string): string {
+    return this.namespace
+      ? `${this.namespace}${NAMESPACE_SEPARATOR}${key}`
+      : key;
+  }
+
+  /**
+   * Chave sem o namespace, ou null se a entrada pertencer a outro
+   */
+  private fromBackendKey(backendKey: string): string | null {
+    if (!this.namespace) {
+      return backendKey;
     }
+    const prefix = `${this.namespace}${NAMESPACE_SEPARATOR}`;
+    return backendKey.startsWith(prefix) ? backendKey.slice(prefix.length) : null;
   }
 
-  private getCacheFilePath(key: string): string {
-    const sanitizedKey = key.replace(/[^a-zA-Z0-9-_]/g, "_");
-    return path.join(this.cacheDir, `${sanitizedKey}.json`);
+  private async purgeOtherNamespaces(): Promise<void> {
+    if (!this.namespace) {
+      return;
+    }
+
+    const stale = (await this.backend.keys()).filter(
+      (backendKey) => this.fromBackendKey(backendKey) === null
+    );
+    for (const backendKey of stale) {
+      await this.backend.delete(backendKey);
+    }
+
+    if (stale.length > 0) {
+      console.error(
+        `🧹 ${stale.length} entradas de cache de outra versão removidas (atual: ${this.namespace})`
+      );
+    }
+  }
+
+  getBackendName(): CacheBackendName {
+    return this.backend.name;
   }
 
-  private isExpired(entry: CacheEntry<any>): boolean {
-    return new Date() > new Date(entry.expiry);
+  private isExpired(entry: { expiry: Date }): boolean {
+    return new Date() > entry.expiry;
   }
 
   async get<T>(key: string): Promise<T | null> {
     const memoryEntry = this.memoryCache.get(key);
     if (memoryEntry && new Date() < memoryEntry.expiry) {
+      this.hits++;
       return memoryEntry.data;
     }
 
     try {
-      const filePath = this.getCacheFilePath(key);
-      const data = await fs.readFile(filePath, "utf-8");
-      const entry: CacheEntry<T> = JSON.parse(data);
+      const entry = await this.backend.read<T>(this.toBackendKey(key));
+      if (!entry) {
+        this.misses++;
+        return null;
+      }
 
       if (this.isExpired(entry)) {
+        this.misses++;
         await this.delete(key);
         return null;
       }
 
-      this.memoryCache.set(key, {
-        data: entry.data,
-        expiry: new Date(entry.expiry),
-      });
+      this.hits++;
+      this.memoryCache.set(key, entry);
 
       return entry.data;
     } catch (error) {
+      this.misses++;
       return null;
     }
   }
 
+  /**
+   * Como `get`, mas devolve também entradas vencidas (marcadas como
+   * `stale`) em vez de removê-las
+   */
+  async getEntry<T>(key: string): Promise<CachedValue<T> | null> {
+    let entry: CacheEntry<T> | null | undefined = this.memoryCache.get(key);
+
+    if (!entry) {
+      try {
+        entry = await this.backend.read<T>(this.toBackendKey(key));
+      } catch (error) {
+        entry = null;
+      }
+      if (!entry) {
+        this.misses++;
+        return null;
+      }
+      this.memoryCache.set(key, entry);
+    }
+
+    const stale = this.isExpired(entry);
+    if (stale) {
+      this.misses++;
+    } else {
+      this.hits++;
+    }
+    return { ...entry, stale };
+  }
+
   async set<T>(key: string, data: T, ttlMinutes?: number): Promise<void> {
     const ttl = ttlMinutes || this.defaultTTL;
     const expiry = new Date(Date.now() + ttl * 60 * 1000);
@@ -77,30 +232,23 @@ export class CacheManager {
     };
 
     try {
-      const filePath = this.getCacheFilePath(key);
-      await fs.writeFile(filePath, JSON.stringify(entry, null, 2), "utf-8");
+      await this.backend.write(this.toBackendKey(key), entry);
 
-      this.memoryCache.set(key, {
-        data,
-        expiry,
-      });
+      this.memoryCache.set(key, entry);
     } catch (error) {
       console.error("Erro ao salvar no cache:", error);
     }
   }
 
   async delete(key: string): Promise<void> {
-    const filePath = this.getCacheFilePath(key);
-    await fs.unlink(filePath);
+    this.memoryCache.delete(key);
+    await this.backend.delete(this.toBackendKey(key));
   }
 
   async clear(): Promise<void> {
     try {
       this.memoryCache.clear();
-      const files = await fs.readdir(this.cacheDir);
-      await Promise.all(
-        files.map((file) => fs.unlink(path.join(this.cacheDir, file)))
-      );
+      await this.backend.clear();
     } catch (error) {
       console.error("Erro ao limpar cache:", error);
     }
@@ -113,48 +261,50 @@ export class CacheManager {
 
   async getKeys(): Promise<string[]> {
     try {
-      const files = await fs.readdir(this.cacheDir);
-      return files
-        .filter((file) => file.endsWith(".json"))
-        .map((file) => file.replace(".json", ""));
+      const keys = await this.backend.keys();
+      return keys
+        .map((backendKey) => this.fromBackendKey(backendKey))
+        .filter((key): key is string => key !== null);
     } catch (error) {
       return [];
     }
   }
 
-  async getStats(): Promise<{
-    totalEntries: number;
-    totalSize: number;
-    oldestEntry?: Date;
-    newestEntry?: Date;
-  }> {
+  /**
+   * Metadados de todas as entradas do backend, inclusive as vencidas
+   */
+  async getEntries(): Promise<CacheEntryStatus[]> {
     try {
-      const keys = await this.getKeys();
-      let totalSize = 0;
-      let oldestEntry: Date | undefined;
-      let newestEntry: Date | undefined;
-
-      for (const key of keys) {
-        const filePath = this.getCacheFilePath(key);
-        const stats = await fs.stat(filePath);
-        totalSize += stats.size;
-
-        if (!oldestEntry || stats.mtime < oldestEntry) {
-          oldestEntry = stats.mtime;
-        }
-        if (!newestEntry || stats.mtime > newestEntry) {
-          newestEntry = stats.mtime;
-        }
-      }
+      const entries = await this.backend.entries();
+      return entries
+        .flatMap((entry) => {
+          const key = this.fromBackendKey(entry.key);
+          return key === null
+            ? []
+            : [{ ...entry, key, stale: this.isExpired(entry) }];
+        })
+        .sort((a, b) => a.key.localeCompare(b.key));
+    } catch (error) {
+      return [];
+    }
+  }
 
-      return {
-        totalEntries: keys.length,
-        totalSize,
-        oldestEntry,
-        newestEntry,
-      };
+  async getStats(): Promise<CacheStats> {
+    const memory = this.memoryCache.stats();
+    const backend = {
+      backend: this.backend.name,
+      location: this.backend.location,
+      namespace: this.namespace,
+      hits: this.hits,
+      misses: this.misses,
+      memoryEntries: memory.entries,
+      memorySize: memory.size,
+    };
+
+    try {
+      return { ...backend, ...(await this.backend.stats()) };
     } catch (error) {
-      return { totalEntries: 0, totalSize: 0 };
+      return { ...backend, totalEntries: 0, totalSize: 0 };
     }
   }
 }
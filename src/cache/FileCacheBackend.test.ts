@@ -0,0 +1,64 @@
+import { after, before, describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { promises as fs } from "fs";
+import os from "os";
+import path from "path";
+import { FileCacheBackend } from "./FileCacheBackend.js";
+import type { CacheEntry } from "../types/cache.js";
+
+function entryOf<T>(data: T): CacheEntry<T> {
+  const timestamp = new Date();
+  return { data, timestamp, expiry: new Date(timestamp.getTime() + 60_000) };
+}
+
+describe("FileCacheBackend", () => {
+  let dir: string;
+  let backend: FileCacheBackend;
+
+  before(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), "mistica-cache-test-"));
+    backend = new FileCacheBackend(dir);
+    await backend.init();
+  });
+
+  after(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  test("grava via arquivo temporário sem deixar sobras", async () => {
+    await Promise.all(
+      Array.from({ length: 10 }, (_, index) =>
+        backend.write("concorrente", entryOf({ index }))
+      )
+    );
+
+    const files = await fs.readdir(dir);
+    assert.deepEqual(files.filter((file) => file.endsWith(".tmp")), []);
+
+    const entry = await backend.read<{ index: number }>("concorrente");
+    assert.ok(entry);
+    assert.equal(typeof entry.data.index, "number");
+  });
+
+  test("move para corrupted/ a entrada com checksum divergente", async () => {
+    await backend.write("adulterada", entryOf({ value: 1 }));
+    const filePath = path.join(dir, "adulterada.json");
+    const content = await fs.readFile(filePath, "utf-8");
+    await fs.writeFile(filePath, content.replace('"value": 1', '"value": 2'));
+
+    assert.equal(await backend.read("adulterada"), null);
+    await assert.rejects(fs.access(filePath));
+
+    const quarantined = await fs.readdir(path.join(dir, "corrupted"));
+    assert.ok(quarantined.some((file) => file.startsWith("adulterada.")));
+  });
+
+  test("move para corrupted/ a entrada com JSON truncado", async () => {
+    await fs.writeFile(path.join(dir, "truncada.json"), '{"data": [1, 2');
+
+    assert.equal(await backend.read("truncada"), null);
+
+    const quarantined = await fs.readdir(path.join(dir, "corrupted"));
+    assert.ok(quarantined.some((file) => file.startsWith("truncada.")));
+  });
+});
@@ -0,0 +1,201 @@
+import { promises as fs } from "fs";
+import path from "path";
+import { randomBytes } from "crypto";
+import type {
+  CacheBackend,
+  CacheBackendStats,
+  CacheEntry,
+  CacheEntryInfo,
+} from "../types/cache.js";
+import {
+  checksumCacheData,
+  parseCacheValue,
+  stringifyCacheValue,
+} from "./cacheSerialization.js";
+
+const QUARANTINE_DIR = "corrupted";
+
+/**
+ * 📁 FileCacheBackend - Uma entrada por arquivo JSON
+ *
+ * Responsabilidade: Persistir as entradas em `<dir>/<chave>.json`, o
+ * formato histórico do cache em `data/cache`.
+ *
+ * A gravação vai para um arquivo temporário renomeado em seguida, para que
+ * uma interrupção nunca deixe um JSON truncado no lugar da entrada. Cada
+ * arquivo guarda o checksum dos dados; arquivos ilegíveis ou com checksum
+ * divergente são movidos para `<dir>/corrupted/` e tratados como ausentes.
+ */
+export class FileCacheBackend implements CacheBackend {
+  readonly name = "file" as const;
+  readonly location: string;
+  private ready: Promise<void>;
+
+  constructor(cacheDir: string) {
+    this.location = path.resolve(cacheDir);
+    this.ready = this.ensureCacheDir();
+  }
+
+  init(): Promise<void> {
+    return this.ready;
+  }
+
+  private async ensureCacheDir(): Promise<void> {
+    try {
+      await fs.mkdir(this.location, { recursive: true });
+      console.error(`📁 Cache configurado em: ${this.location}`);
+    } catch (error) {
+      console.error("Erro ao criar diretório de cache:", error);
+    }
+  }
+
+  private getCacheFilePath(key: string): string {
+    const sanitizedKey = key.replace(/[^a-zA-Z0-9-_]/g, "_");
+    return path.join(this.location, `${sanitizedKey}.json`);
+  }
+
+  async read<T>(key: string): Promise<CacheEntry<T> | null> {
+    let content: string;
+    try {
+      content = await fs.readFile(this.getCacheFilePath(key), "utf-8");
+    } catch (error: any) {
+      if (error.code === "ENOENT") return null;
+      throw error;
+    }
+
+    let entry: CacheEntry<T> & { checksum?: string };
+    try {
+      entry = parseCacheValue(content);
+    } catch (error: any) {
+      await this.quarantine(key, `JSON inválido (${error.message})`);
+      return null;
+    }
+
+    if (entry.checksum !== checksumCacheData(entry.data)) {
+      await this.quarantine(key, "checksum divergente");
+      return null;
+    }
+
+    return {
+      data: entry.data,
+      timestamp: new Date(entry.timestamp),
+      expiry: new Date(entry.expiry),
+    };
+  }
+
+  async write<T>(key: string, entry: CacheEntry<T>): Promise<void> {
+    await this.ready;
+    const filePath = this.getCacheFilePath(key);
+    const tempPath = `${filePath}.${process.pid}-${randomBytes(4).toString("hex")}.tmp`;
+    const content = stringifyCacheValue(
+      { ...entry, checksum: checksumCacheData(entry.data) },
+      2
+    );
+
+    try {
+      await fs.writeFile(tempPath, content, "utf-8");
+      await fs.rename(tempPath, filePath);
+    } catch (error) {
+      await fs.rm(tempPath, { force: true });
+      throw error;
+    }
+  }
+
+  /**
+   * Tira a entrada do caminho de leitura, preservando o arquivo para análise
+   */
+  private async quarantine(key: string, reason: string): Promise<void> {
+    const filePath = this.getCacheFilePath(key);
+    const target = path.join(
+      this.location,
+      QUARANTINE_DIR,
+      `${path.basename(filePath, ".json")}.${Date.now()}.json`
+    );
+
+    try {
+      await fs.mkdir(path.dirname(target), { recursive: true });
+      await fs.rename(filePath, target);
+      console.warn(`⚠️ Entrada de cache corrompida (${reason}) movida para: ${target}`);
+    } catch (error: any) {
+      if (error.code !== "ENOENT") throw error;
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    try {
+      await fs.unlink(this.getCacheFilePath(key));
+    } catch (error: any) {
+      // Chave ausente no disco já está "removida"
+      if (error.code !== "ENOENT") throw error;
+    }
+  }
+
+  async clear(): Promise<void> {
+    const files = await this.listFiles();
+    await Promise.all(
+      files.map((file) => fs.unlink(path.join(this.location, file)))
+    );
+  }
+
+  async keys(): Promise<string[]> {
+    const files = await this.listFiles();
+    return files.map((file) => file.replace(/\.json$/, ""));
+  }
+
+  async entries(): Promise<CacheEntryInfo[]> {
+    const files = await this.listFiles();
+    const entries: CacheEntryInfo[] = [];
+
+    for (const file of files) {
+      const filePath = path.join(this.location, file);
+      try {
+        const [content, stats] = await Promise.all([
+          fs.readFile(filePath, "utf-8"),
+          fs.stat(filePath),
+        ]);
+        const entry = parseCacheValue<CacheEntry<unknown>>(content);
+        entries.push({
+          key: file.replace(/\.json$/, ""),
+          size: stats.size,
+          timestamp: new Date(entry.timestamp),
+          expiry: new Date(entry.expiry),
+        });
+      } catch (error) {
+        console.warn(`⚠️ Entrada de cache ilegível ignorada: ${file}`);
+      }
+    }
+
+    return entries;
+  }
+
+  async stats(): Promise<CacheBackendStats> {
+    const files = await this.listFiles();
+    let totalSize = 0;
+    let oldestEntry: Date | undefined;
+    let newestEntry: Date | undefined;
+
+    for (const file of files) {
+      const stats = await fs.stat(path.join(this.location, file));
+      totalSize += stats.size;
+
+      if (!oldestEntry || stats.mtime < oldestEntry) {
+        oldestEntry = stats.mtime;
+      }
+      if (!newestEntry || stats.mtime > newestEntry) {
+        newestEntry = stats.mtime;
+      }
+    }
+
+    return { totalEntries: files.length, totalSize, oldestEntry, newestEntry };
+  }
+
+  private async listFiles(): Promise<string[]> {
+    try {
+      const files = await fs.readdir(this.location);
+      return files.filter((file) => file.endsWith(".json"));
+    } catch (error: any) {
+      if (error.code === "ENOENT") return [];
+      throw error;
+    }
+  }
+}
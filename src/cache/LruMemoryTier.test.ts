@@ -0,0 +1,37 @@
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { LruMemoryTier } from "./LruMemoryTier.js";
+import type { CacheEntry } from "../types/cache.js";
+
+function entryOf<T>(data: T): CacheEntry<T> {
+  const timestamp = new Date();
+  return { data, timestamp, expiry: new Date(timestamp.getTime() + 60_000) };
+}
+
+describe("LruMemoryTier", () => {
+  test("descarta a entrada usada há mais tempo ao exceder o número de entradas", () => {
+    const tier = new LruMemoryTier({ maxEntries: 2, maxBytes: 1024 });
+    tier.set("a", entryOf("a"));
+    tier.set("b", entryOf("b"));
+    tier.get("a");
+    tier.set("c", entryOf("c"));
+
+    assert.ok(tier.get("a"));
+    assert.equal(tier.get("b"), undefined);
+    assert.ok(tier.get("c"));
+    assert.equal(tier.stats().entries, 2);
+  });
+
+  test("respeita o orçamento em bytes e ignora entradas maiores que ele", () => {
+    const tier = new LruMemoryTier({ maxEntries: 10, maxBytes: 20 });
+    tier.set("a", entryOf("x".repeat(10)));
+    tier.set("b", entryOf("y".repeat(10)));
+
+    assert.equal(tier.get("a"), undefined);
+    assert.ok(tier.get("b"));
+
+    tier.set("grande", entryOf("z".repeat(100)));
+    assert.equal(tier.get("grande"), undefined);
+    assert.ok(tier.stats().size <= 20);
+  });
+});
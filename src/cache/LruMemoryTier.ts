@@ -0,0 +1,78 @@
+import type { CacheEntry, CacheMemoryBudget } from "../types/cache.js";
+import { measureCacheData } from "./cacheSerialization.js";
+
+interface TierItem {
+  entry: CacheEntry<any>;
+  size: number;
+}
+
+/**
+ * 🧠 LruMemoryTier - Camada em memória na frente do backend
+ *
+ * Responsabilidade: Manter as entradas lidas mais recentemente dentro de um
+ * orçamento de entradas e bytes, descartando as menos usadas primeiro. A
+ * ordem de inserção do `Map` é a ordem de uso.
+ */
+export class LruMemoryTier {
+  private items = new Map<string, TierItem>();
+  private totalSize = 0;
+  private budget: CacheMemoryBudget;
+
+  constructor(budget: CacheMemoryBudget) {
+    this.budget = budget;
+  }
+
+  get(key: string): CacheEntry<any> | undefined {
+    const item = this.items.get(key);
+    if (!item) {
+      return undefined;
+    }
+
+    this.items.delete(key);
+    this.items.set(key, item);
+    return item.entry;
+  }
+
+  set(key: string, entry: CacheEntry<any>): void {
+    this.delete(key);
+
+    const size = measureCacheData(entry.data);
+    // Entrada maior que o orçamento inteiro fica só no backend
+    if (size > this.budget.maxBytes) {
+      return;
+    }
+
+    this.items.set(key, { entry, size });
+    this.totalSize += size;
+    this.evict();
+  }
+
+  delete(key: string): void {
+    const item = this.items.get(key);
+    if (item) {
+      this.totalSize -= item.size;
+      this.items.delete(key);
+    }
+  }
+
+  clear(): void {
+    this.items.clear();
+    this.totalSize = 0;
+  }
+
+  stats(): { entries: number; size: number } {
+    return { entries: this.items.size, size: this.totalSize };
+  }
+
+  private evict(): void {
+    for (const key of this.items.keys()) {
+      if (
+        this.items.size <= this.budget.maxEntries &&
+        this.totalSize <= this.budget.maxBytes
+      ) {
+        return;
+      }
+      this.delete(key);
+    }
+  }
+}
@@ -0,0 +1,60 @@
+import type {
+  CacheBackend,
+  CacheBackendStats,
+  CacheEntry,
+  CacheEntryInfo,
+} from "../types/cache.js";
+
+/**
+ * 🧠 MemoryCacheBackend - Entradas apenas na memória do processo
+ *
+ * Responsabilidade: Backend sem persistência, para testes e instâncias
+ * efêmeras; o cache recomeça vazio a cada inicialização.
+ */
+export class MemoryCacheBackend implements CacheBackend {
+  readonly name = "memory" as const;
+  private store = new Map<string, CacheEntry<unknown>>();
+
+  async read<T>(key: string): Promise<CacheEntry<T> | null> {
+    return (this.store.get(key) as CacheEntry<T> | undefined) || null;
+  }
+
+  async write<T>(key: string, entry: CacheEntry<T>): Promise<void> {
+    this.store.set(key, entry);
+  }
+
+  async delete(key: string): Promise<void> {
+    this.store.delete(key);
+  }
+
+  async clear(): Promise<void> {
+    this.store.clear();
+  }
+
+  async keys(): Promise<string[]> {
+    return [...this.store.keys()];
+  }
+
+  async entries(): Promise<CacheEntryInfo[]> {
+    return [...this.store.entries()].map(([key, entry]) => ({
+      key,
+      size: Buffer.byteLength(JSON.stringify(entry.data) ?? ""),
+      timestamp: entry.timestamp,
+      expiry: entry.expiry,
+    }));
+  }
+
+  async stats(): Promise<CacheBackendStats> {
+    let totalSize = 0;
+    let oldestEntry: Date | undefined;
+    let newestEntry: Date | undefined;
+
+    for (const entry of this.store.values()) {
+      totalSize += Buffer.byteLength(JSON.stringify(entry.data) ?? "");
+      if (!oldestEntry || entry.timestamp < oldestEntry) oldestEntry = entry.timestamp;
+      if (!newestEntry || entry.timestamp > newestEntry) newestEntry = entry.timestamp;
+    }
+
+    return { totalEntries: this.store.size, totalSize, oldestEntry, newestEntry };
+  }
+}
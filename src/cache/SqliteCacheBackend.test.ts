@@ -0,0 +1,68 @@
+import { after, before, describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { promises as fs } from "fs";
+import os from "os";
+import path from "path";
+import { SqliteCacheBackend } from "./SqliteCacheBackend.js";
+import type { CacheEntry } from "../types/cache.js";
+
+const sqlite = await import("node:sqlite").catch(() => undefined);
+
+function entryOf<T>(data: T): CacheEntry<T> {
+  const timestamp = new Date();
+  return { data, timestamp, expiry: new Date(timestamp.getTime() + 60_000) };
+}
+
+describe("SqliteCacheBackend", { skip: !sqlite && "requer node:sqlite" }, () => {
+  let dir: string;
+  let databaseFile: string;
+  let backend: SqliteCacheBackend;
+
+  // Altera o banco por fora do backend, como uma corrupção em disco
+  function tamper(sql: string, ...params: string[]) {
+    const database = new sqlite!.DatabaseSync(databaseFile);
+    database.prepare(sql).run(...params);
+    database.close();
+  }
+
+  function quarantined() {
+    const database = new sqlite!.DatabaseSync(databaseFile);
+    const rows = database
+      .prepare("SELECT key, reason FROM cache_quarantine ORDER BY key")
+      .all() as { key: string; reason: string }[];
+    database.close();
+    return rows.map(({ key, reason }) => ({ key, reason }));
+  }
+
+  before(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), "mistica-cache-test-"));
+    databaseFile = path.join(dir, "cache.sqlite");
+    backend = new SqliteCacheBackend(databaseFile);
+    await backend.init();
+  });
+
+  after(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  test("move para a quarentena a entrada com checksum divergente", async () => {
+    await backend.write("adulterada", entryOf({ value: 1 }));
+    tamper("UPDATE cache_entries SET data = ? WHERE key = ?", '{"value":2}', "adulterada");
+
+    assert.equal(await backend.read("adulterada"), null);
+    assert.deepEqual(await backend.keys(), []);
+    assert.deepEqual(quarantined(), [{ key: "adulterada", reason: "checksum divergente" }]);
+  });
+
+  test("move para a quarentena a entrada com JSON truncado", async () => {
+    await backend.write("truncada", entryOf([1, 2]));
+    tamper("UPDATE cache_entries SET data = ? WHERE key = ?", "[1, 2", "truncada");
+
+    assert.equal(await backend.read("truncada"), null);
+    assert.deepEqual(await backend.keys(), []);
+    assert.match(
+      quarantined().find(({ key }) => key === "truncada")?.reason ?? "",
+      /^JSON inválido/
+    );
+  });
+});
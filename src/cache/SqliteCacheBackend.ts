@@ -0,0 +1,205 @@
+import { promises as fs } from "fs";
+import path from "path";
+import type { DatabaseSync } from "node:sqlite";
+import type {
+  CacheBackend,
+  CacheBackendStats,
+  CacheEntry,
+  CacheEntryInfo,
+} from "../types/cache.js";
+import {
+  checksumCacheData,
+  parseCacheValue,
+  stringifyCacheValue,
+} from "./cacheSerialization.js";
+
+/**
+ * 🗄️ SqliteCacheBackend - Entradas em um único banco SQLite
+ *
+ * Responsabilidade: Persistir o cache em `<dir>/cache.sqlite` com o módulo
+ * nativo `node:sqlite` (Node 22.5+), carregado sob demanda para que as
+ * demais opções de cache funcionem em versões anteriores do Node.
+ * Gravações são atômicas pelas transações do próprio SQLite. Cada linha
+ * guarda o checksum dos dados; linhas ilegíveis ou com checksum divergente
+ * são movidas para a tabela `cache_quarantine` e tratadas como ausentes.
+ */
+export class SqliteCacheBackend implements CacheBackend {
+  readonly name = "sqlite" as const;
+  readonly location: string;
+  private database?: Promise<DatabaseSync>;
+
+  constructor(databaseFile: string) {
+    this.location = path.resolve(databaseFile);
+  }
+
+  async init(): Promise<void> {
+    await this.open();
+  }
+
+  private open(): Promise<DatabaseSync> {
+    this.database ||= (async () => {
+      let sqlite: typeof import("node:sqlite");
+      try {
+        sqlite = await import("node:sqlite");
+      } catch {
+        throw new Error(
+          `Cache SQLite requer Node 22.5+ com node:sqlite (atual: ${process.version}). Use --cache=file ou --cache=memory`
+        );
+      }
+
+      await fs.mkdir(path.dirname(this.location), { recursive: true });
+      const database = new sqlite.DatabaseSync(this.location);
+      database.exec(`
+        CREATE TABLE IF NOT EXISTS cache_entries (
+          key TEXT PRIMARY KEY,
+          data TEXT NOT NULL,
+          timestamp INTEGER NOT NULL,
+          expiry INTEGER NOT NULL,
+          checksum TEXT
+        );
+        CREATE TABLE IF NOT EXISTS cache_quarantine (
+          key TEXT NOT NULL,
+          data TEXT NOT NULL,
+          timestamp INTEGER NOT NULL,
+          expiry INTEGER NOT NULL,
+          checksum TEXT,
+          reason TEXT NOT NULL,
+          quarantined_at INTEGER NOT NULL
+        )
+      `);
+      this.migrate(database);
+      console.error(`🗄️ Cache SQLite configurado em: ${this.location}`);
+      return database;
+    })();
+    return this.database;
+  }
+
+  /**
+   * Bancos criados antes do checksum ganham a coluna; as linhas antigas
+   * ficam sem checksum e vão para a quarentena na primeira leitura
+   */
+  private migrate(database: DatabaseSync): void {
+    const columns = database
+      .prepare("PRAGMA table_info(cache_entries)")
+      .all() as { name: string }[];
+    if (!columns.some((column) => column.name === "checksum")) {
+      database.exec("ALTER TABLE cache_entries ADD COLUMN checksum TEXT");
+    }
+  }
+
+  async read<T>(key: string): Promise<CacheEntry<T> | null> {
+    const database = await this.open();
+    const row = database
+      .prepare("SELECT data, timestamp, expiry, checksum FROM cache_entries WHERE key = ?")
+      .get(key) as
+      | { data: string; timestamp: number; expiry: number; checksum: string | null }
+      | undefined;
+
+    if (!row) return null;
+
+    let data: T;
+    try {
+      data = parseCacheValue<T>(row.data);
+    } catch (error: any) {
+      await this.quarantine(key, `JSON inválido (${error.message})`);
+      return null;
+    }
+
+    if (row.checksum !== checksumCacheData(data)) {
+      await this.quarantine(key, "checksum divergente");
+      return null;
+    }
+
+    return {
+      data,
+      timestamp: new Date(row.timestamp),
+      expiry: new Date(row.expiry),
+    };
+  }
+
+  async write<T>(key: string, entry: CacheEntry<T>): Promise<void> {
+    const database = await this.open();
+    database
+      .prepare(
+        "INSERT OR REPLACE INTO cache_entries (key, data, timestamp, expiry, checksum) VALUES (?, ?, ?, ?, ?)"
+      )
+      .run(
+        key,
+        stringifyCacheValue(entry.data),
+        entry.timestamp.getTime(),
+        entry.expiry.getTime(),
+        checksumCacheData(entry.data)
+      );
+  }
+
+  /**
+   * Tira a linha do caminho de leitura, preservando-a para análise
+   */
+  private async quarantine(key: string, reason: string): Promise<void> {
+    const database = await this.open();
+    database.exec("BEGIN");
+    try {
+      database
+        .prepare(
+          "INSERT INTO cache_quarantine (key, data, timestamp, expiry, checksum, reason, quarantined_at) SELECT key, data, timestamp, expiry, checksum, ?, ? FROM cache_entries WHERE key = ?"
+        )
+        .run(reason, Date.now(), key);
+      database.prepare("DELETE FROM cache_entries WHERE key = ?").run(key);
+      database.exec("COMMIT");
+    } catch (error) {
+      database.exec("ROLLBACK");
+      throw error;
+    }
+    console.warn(`⚠️ Entrada de cache corrompida (${reason}) movida para cache_quarantine: ${key}`);
+  }
+
+  async delete(key: string): Promise<void> {
+    const database = await this.open();
+    database.prepare("DELETE FROM cache_entries WHERE key = ?").run(key);
+  }
+
+  async clear(): Promise<void> {
+    const database = await this.open();
+    database.exec("DELETE FROM cache_entries");
+  }
+
+  async keys(): Promise<string[]> {
+    const database = await this.open();
+    const rows = database
+      .prepare("SELECT key FROM cache_entries ORDER BY key")
+      .all() as { key: string }[];
+    return rows.map((row) => row.key);
+  }
+
+  async entries(): Promise<CacheEntryInfo[]> {
+    const database = await this.open();
+    const rows = database
+      .prepare(
+        "SELECT key, LENGTH(data) AS size, timestamp, expiry FROM cache_entries ORDER BY key"
+      )
+      .all() as { key: string; size: number; timestamp: number; expiry: number }[];
+
+    return rows.map((row) => ({
+      key: row.key,
+      size: Number(row.size),
+      timestamp: new Date(Number(row.timestamp)),
+      expiry: new Date(Number(row.expiry)),
+    }));
+  }
+
+  async stats(): Promise<CacheBackendStats> {
+    const database = await this.open();
+    const row = database
+      .prepare(
+        "SELECT COUNT(*) AS total, COALESCE(SUM(LENGTH(data)), 0) AS size, MIN(timestamp) AS oldest, MAX(timestamp) AS newest FROM cache_entries"
+      )
+      .get() as { total: number; size: number; oldest: number | null; newest: number | null };
+
+    return {
+      totalEntries: Number(row.total),
+      totalSize: Number(row.size),
+      oldestEntry: row.oldest !== null ? new Date(Number(row.oldest)) : undefined,
+      newestEntry: row.newest !== null ? new Date(Number(row.newest)) : undefined,
+    };
+  }
+}
@@ -0,0 +1,52 @@
+import { createHash } from "crypto";
+
+/**
+ * Serialização das entradas persistidas (arquivos e SQLite).
+ *
+ * Datas são gravadas como `{"$date": "<ISO>"}` e revividas como `Date` na
+ * leitura, inclusive dentro dos dados (ex: `lastUpdated` dos componentes).
+ * O checksum cobre a forma compacta dos dados, que é estável entre gravação
+ * e releitura.
+ */
+
+const DATE_TAG = "$date";
+
+export function stringifyCacheValue(value: unknown, space?: number): string {
+  return JSON.stringify(
+    value,
+    function (this: any, key: string, current: unknown) {
+      const original = this[key];
+      return original instanceof Date
+        ? { [DATE_TAG]: original.toISOString() }
+        : current;
+    },
+    space
+  );
+}
+
+export function parseCacheValue<T>(text: string): T {
+  return JSON.parse(text, (_key, value) => {
+    if (
+      value &&
+      typeof value === "object" &&
+      typeof value[DATE_TAG] === "string" &&
+      Object.keys(value).length === 1
+    ) {
+      return new Date(value[DATE_TAG]);
+    }
+    return value;
+  });
+}
+
+export function checksumCacheData(data: unknown): string {
+  return createHash("sha256")
+    .update(stringifyCacheValue(data) ?? "")
+    .digest("hex");
+}
+
+/**
+ * Tamanho serializado aproximado, usado no orçamento da camada em memória
+ */
+export function measureCacheData(data: unknown): number {
+  return Buffer.byteLength(stringifyCacheValue(data) ?? "");
+}
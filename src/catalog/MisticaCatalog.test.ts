@@ -0,0 +1,36 @@
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import {
+  createCatalogSnapshot,
+  parseCatalog,
+  serializeCatalog,
+} from "./MisticaCatalog.js";
+import type { MisticaIcon } from "../types/mistica.js";
+
+const icons: MisticaIcon[] = [
+  { name: "IconTrashCanRegular", baseName: "TrashCan", weight: "regular", keywords: ["trash", "can"] },
+  { name: "IconChevronRightRegular", baseName: "ChevronRight", weight: "regular", keywords: ["chevron", "right"] },
+];
+
+describe("MisticaCatalog (ícones)", () => {
+  const snapshot = createCatalogSnapshot([], {}, "16.39.0", icons);
+
+  test("ordena os ícones pelo nome", () => {
+    assert.deepEqual(
+      snapshot.icons?.map((icon) => icon.name),
+      ["IconChevronRightRegular", "IconTrashCanRegular"]
+    );
+  });
+
+  for (const format of ["json", "ndjson"] as const) {
+    test(`preserva os ícones ao serializar em ${format}`, () => {
+      const parsed = parseCatalog(serializeCatalog(snapshot, format), format);
+      assert.deepEqual(parsed.icons, snapshot.icons);
+    });
+  }
+
+  test("catálogo NDJSON sem linhas de ícone não tem índice", () => {
+    const header = '{"type":"header","format":"mistica-catalog","version":1,"misticaVersion":"16.39.0","skins":[]}';
+    assert.equal(parseCatalog(header + "\n", "ndjson").icons, undefined);
+  });
+});
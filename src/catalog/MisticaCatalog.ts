@@ -0,0 +1,209 @@
+import { promises as fs } from "fs";
+import path from "path";
+import type {
+  DesignToken,
+  MisticaComponent,
+  MisticaIcon,
+  MisticaSkinName,
+} from "../types/mistica.js";
+
+/**
+ * 📘 MisticaCatalog - Catálogo congelado (componentes + ícones + tokens) em arquivo
+ *
+ * Responsabilidade: Serializar o catálogo combinado (npm + Storybook +
+ * índice de ícones + tokens por skin) em um arquivo versionado, JSON ou
+ * NDJSON, e servi-lo ao scraper, à busca de ícones e ao extrator de tokens
+ * no lugar das fontes dinâmicas quando o servidor é iniciado com
+ * `--catalog=<arquivo>` (ou MISTICA_CATALOG).
+ *
+ * A saída é determinística (ordenada e sem datas) para que o arquivo possa
+ * ser versionado no repositório e revisado como diff.
+ *
+ * Layout NDJSON: uma linha `header`, uma linha por componente, uma linha
+ * por ícone (`{"type":"icon",...}`) e uma linha por token
+ * (`{"type":"token","skin":...}`).
+ */
+
+export const CATALOG_FORMAT = "mistica-catalog";
+export const CATALOG_VERSION = 1;
+
+export type CatalogFileFormat = "json" | "ndjson";
+
+export type CatalogComponent = Omit<MisticaComponent, "lastUpdated">;
+
+export interface CatalogSnapshot {
+  format: typeof CATALOG_FORMAT;
+  version: number;
+  misticaVersion: string;
+  skins: MisticaSkinName[];
+  components: CatalogComponent[];
+  // Ausente em catálogos exportados antes do índice de ícones
+  icons?: MisticaIcon[];
+  tokens: Partial<Record<MisticaSkinName, DesignToken[]>>;
+}
+
+export function catalogFormatFromPath(file: string): CatalogFileFormat {
+  const extension = path.extname(file).toLowerCase();
+  return extension === ".ndjson" || extension === ".jsonl" ? "ndjson" : "json";
+}
+
+/**
+ * Monta o snapshot em ordem estável, descartando campos voláteis
+ */
+export function createCatalogSnapshot(
+  components: MisticaComponent[],
+  tokensBySkin: Partial<Record<MisticaSkinName, DesignToken[]>>,
+  misticaVersion: string,
+  icons: MisticaIcon[] = []
+): CatalogSnapshot {
+  const skins = (Object.keys(tokensBySkin) as MisticaSkinName[]).sort();
+  const tokens: CatalogSnapshot["tokens"] = {};
+  for (const skin of skins) {
+    tokens[skin] = [...(tokensBySkin[skin] || [])].sort((a, b) =>
+      a.name.localeCompare(b.name)
+    );
+  }
+
+  return {
+    format: CATALOG_FORMAT,
+    version: CATALOG_VERSION,
+    misticaVersion,
+    skins,
+    components: components
+      .map(({ lastUpdated, ...component }) => component)
+      .sort((a, b) => a.id.localeCompare(b.id)),
+    icons: [...icons].sort((a, b) => a.name.localeCompare(b.name)),
+    tokens,
+  };
+}
+
+export function serializeCatalog(
+  snapshot: CatalogSnapshot,
+  format: CatalogFileFormat
+): string {
+  if (format === "json") {
+    return JSON.stringify(snapshot, null, 2) + "\n";
+  }
+
+  const { components, icons = [], tokens, ...header } = snapshot;
+  const lines = [
+    JSON.stringify({ type: "header", ...header }),
+    ...components.map((component) =>
+      JSON.stringify({ type: "component", ...component })
+    ),
+    ...icons.map((icon) => JSON.stringify({ type: "icon", ...icon })),
+    ...snapshot.skins.flatMap((skin) =>
+      (tokens[skin] || []).map((token) =>
+        JSON.stringify({ type: "token", ...token, skin })
+      )
+    ),
+  ];
+  return lines.join("\n") + "\n";
+}
+
+export function parseCatalog(
+  content: string,
+  format: CatalogFileFormat
+): CatalogSnapshot {
+  let snapshot: any;
+
+  if (format === "json") {
+    snapshot = JSON.parse(content);
+  } else {
+    const records = content
+      .split("\n")
+      .filter((line) => line.trim())
+      .map((line, index) => {
+        try {
+          return JSON.parse(line);
+        } catch {
+          throw new Error(`Linha ${index + 1} do catálogo NDJSON não é JSON válido`);
+        }
+      });
+    const [header, ...rest] = records;
+    if (header?.type !== "header") {
+      throw new Error("Catálogo NDJSON sem linha de cabeçalho");
+    }
+
+    const { type, ...meta } = header;
+    snapshot = { ...meta, components: [], tokens: {} };
+    for (const { type: recordType, ...record } of rest) {
+      if (recordType === "component") {
+        snapshot.components.push(record);
+      } else if (recordType === "icon") {
+        (snapshot.icons ||= []).push(record);
+      } else if (recordType === "token") {
+        (snapshot.tokens[record.skin] ||= []).push(record);
+      }
+    }
+  }
+
+  if (snapshot?.format !== CATALOG_FORMAT || !Array.isArray(snapshot.components)) {
+    throw new Error("Arquivo não é um catálogo do Mística válido");
+  }
+  if (snapshot.version > CATALOG_VERSION) {
+    throw new Error(
+      `Catálogo v${snapshot.version} é mais novo que o suportado (v${CATALOG_VERSION})`
+    );
+  }
+  return snapshot as CatalogSnapshot;
+}
+
+export class MisticaCatalog {
+  private filePath: string;
+  private loading?: Promise<CatalogSnapshot>;
+
+  constructor(filePath: string) {
+    this.filePath = path.resolve(filePath);
+  }
+
+  getFilePath(): string {
+    return this.filePath;
+  }
+
+  /**
+   * Lê o arquivo uma única vez; as chamadas seguintes reutilizam o snapshot
+   */
+  load(): Promise<CatalogSnapshot> {
+    this.loading ||= fs
+      .readFile(this.filePath, "utf-8")
+      .then((content) => parseCatalog(content, catalogFormatFromPath(this.filePath)));
+    return this.loading;
+  }
+
+  async getComponents(): Promise<MisticaComponent[]> {
+    const snapshot = await this.load();
+    // Sem data no arquivo: a data de atualização é a do próprio catálogo
+    const stats = await fs.stat(this.filePath);
+    return snapshot.components.map((component) => ({
+      ...component,
+      lastUpdated: stats.mtime,
+    }));
+  }
+
+  async getIcons(): Promise<MisticaIcon[]> {
+    const snapshot = await this.load();
+    if (!snapshot.icons) {
+      throw new Error(
+        `Catálogo ${this.filePath} não contém o índice de ícones. Regere com: npm run catalog:export`
+      );
+    }
+    return snapshot.icons;
+  }
+
+  async getTokens(skin: MisticaSkinName): Promise<DesignToken[]> {
+    const snapshot = await this.load();
+    const tokens = snapshot.tokens[skin];
+    if (!tokens) {
+      throw new Error(
+        `Skin "${skin}" não está no catálogo ${this.filePath}. Disponíveis: ${snapshot.skins.join(", ")}`
+      );
+    }
+    return tokens;
+  }
+
+  static async write(file: string, snapshot: CatalogSnapshot): Promise<void> {
+    await fs.mkdir(path.dirname(path.resolve(file)), { recursive: true });
+    await fs.writeFile(file, serializeCatalog(snapshot, catalogFormatFromPath(file)), "utf-8");
+  }
+}
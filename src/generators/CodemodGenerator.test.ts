@@ -0,0 +1,64 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { CodemodGenerator } from './CodemodGenerator.js';
+import type { CodemodRules } from './CodemodGenerator.js';
+
+const rules: CodemodRules = {
+  fromVersion: '15.0.0',
+  toVersion: '16.0.0',
+  componentRenames: { ButtonOld: 'ButtonNew' },
+  propRenames: {},
+  removedBooleanProps: {},
+  manualReview: [],
+};
+
+describe('CodemodGenerator.preview', () => {
+  const generator = new CodemodGenerator();
+
+  test('renomeia apenas referências ligadas ao import do Mística', () => {
+    const code = [
+      "import { ButtonOld } from '@telefonica/mistica';",
+      'type Props = React.ComponentProps<typeof ButtonOld>;',
+      'function f(ButtonOld: number) { return ButtonOld + 1; }',
+      'const g = () => { const { ButtonOld } = registry; return ButtonOld; };',
+      'const x = legacy.ButtonOld;',
+      'export const A = () => <ButtonOld>Ok</ButtonOld>;',
+    ].join('\n');
+
+    const { output, syntaxErrors } = generator.preview(code, rules);
+    const lines = output.split('\n');
+
+    assert.deepEqual(syntaxErrors, []);
+    assert.equal(lines[0], "import { ButtonNew } from '@telefonica/mistica';");
+    assert.equal(lines[1], 'type Props = React.ComponentProps<typeof ButtonNew>;');
+    assert.equal(lines[2], 'function f(ButtonOld: number) { return ButtonOld + 1; }');
+    assert.equal(lines[3], 'const g = () => { const { ButtonOld } = registry; return ButtonOld; };');
+    assert.equal(lines[4], 'const x = legacy.ButtonOld;');
+    assert.equal(lines[5], 'export const A = () => <ButtonNew>Ok</ButtonNew>;');
+  });
+
+  test('mantém a chave de propriedades abreviadas', () => {
+    const code = [
+      "import { ButtonOld } from '@telefonica/mistica';",
+      'const registry = { ButtonOld };',
+      'const other = { ButtonOld: ButtonOld };',
+    ].join('\n');
+
+    const lines = generator.preview(code, rules).output.split('\n');
+
+    assert.equal(lines[1], 'const registry = { ButtonOld: ButtonNew };');
+    assert.equal(lines[2], 'const other = { ButtonOld: ButtonNew };');
+  });
+
+  test('não renomeia identificadores quando o componente não vem do Mística', () => {
+    const code = [
+      "import { ButtonOld } from './legacy';",
+      'export const A = () => <ButtonOld />;',
+    ].join('\n');
+
+    const { output, changes } = generator.preview(code, rules);
+
+    assert.equal(output, code);
+    assert.deepEqual(changes, []);
+  });
+});
@@ -0,0 +1,415 @@
+import ts from 'typescript';
+import type { MisticaChangelog } from '../analyzers/VersionComparator.js';
+import { MisticaJsxScanner, MISTICA_PACKAGE } from '../analyzers/MisticaJsxScanner.js';
+import type { SourcePosition } from '../analyzers/MisticaJsxScanner.js';
+
+/**
+ * 🛠️ CodemodGenerator - Gera codemods para breaking changes do Mística
+ *
+ * Responsabilidade: Converter o changelog entre duas versões em regras
+ * mecânicas de migração (componentes renomeados, props renomeadas e props
+ * booleanas removidas), emitir um transform jscodeshift equivalente e
+ * aplicar as mesmas regras sobre um snippet como pré-visualização.
+ */
+
+export interface CodemodRules {
+  fromVersion: string;
+  toVersion: string;
+  componentRenames: Record<string, string>;
+  // Chaveadas pelo nome do componente na versão de origem
+  propRenames: Record<string, Record<string, string>>;
+  removedBooleanProps: Record<string, string[]>;
+  manualReview: string[];
+}
+
+export interface CodemodChange {
+  kind: 'component-rename' | 'prop-rename' | 'prop-removal' | 'manual-review';
+  description: string;
+  position: SourcePosition;
+}
+
+export interface CodemodPreview {
+  output: string;
+  changes: CodemodChange[];
+  diff: string;
+  syntaxErrors: Array<{ message: string; position: SourcePosition }>;
+}
+
+interface TextEdit {
+  start: number;
+  end: number;
+  text: string;
+}
+
+export class CodemodGenerator {
+  private scanner = new MisticaJsxScanner();
+
+  buildRules(changelog: MisticaChangelog): CodemodRules {
+    const componentRenames: Record<string, string> = {};
+    const propRenames: Record<string, Record<string, string>> = {};
+    const removedBooleanProps: Record<string, string[]> = {};
+    const manualReview: string[] = [];
+
+    changelog.renamedExports.forEach(rename => {
+      componentRenames[rename.from] = rename.to;
+    });
+    const renamedFrom = new Map(changelog.renamedExports.map(r => [r.to, r.from]));
+
+    changelog.removedExports.forEach(name => {
+      manualReview.push(`${name} foi removido sem substituto identificado`);
+    });
+
+    for (const change of changelog.componentChanges) {
+      const sourceName = renamedFrom.get(change.component) || change.component;
+
+      if (change.renamedProps.length > 0) {
+        propRenames[sourceName] = Object.fromEntries(change.renamedProps.map(r => [r.from, r.to]));
+      }
+
+      const booleanProps = change.removedProps.filter(prop => this.isBooleanType(change.removedPropTypes[prop]));
+      if (booleanProps.length > 0) {
+        removedBooleanProps[sourceName] = booleanProps;
+      }
+
+      change.removedProps
+        .filter(prop => !booleanProps.includes(prop))
+        .forEach(prop => manualReview.push(`${change.component}: prop ${prop} foi removida`));
+      change.newlyRequiredProps.forEach(prop =>
+        manualReview.push(`${change.component}: prop ${prop} agora é obrigatória`)
+      );
+      change.typeChanges.forEach(t =>
+        manualReview.push(`${change.component}: tipo de ${t.prop} mudou de ${t.from} para ${t.to}`)
+      );
+    }
+
+    return {
+      fromVersion: changelog.fromVersion,
+      toVersion: changelog.toVersion,
+      componentRenames,
+      propRenames,
+      removedBooleanProps,
+      manualReview,
+    };
+  }
+
+  hasMechanicalChanges(rules: CodemodRules): boolean {
+    return (
+      Object.keys(rules.componentRenames).length > 0 ||
+      Object.keys(rules.propRenames).length > 0 ||
+      Object.keys(rules.removedBooleanProps).length > 0
+    );
+  }
+
+  /**
+   * Emite um transform jscodeshift com as regras embutidas.
+   * Uso: npx jscodeshift --parser=tsx -t mistica-codemod.js src/
+   */
+  generateTransform(rules: CodemodRules): string {
+    const json = (value: unknown) => JSON.stringify(value, null, 2);
+
+    return `/**
+ * Codemod Mística ${rules.fromVersion} → ${rules.toVersion}
+ * Uso: npx jscodeshift --parser=tsx -t mistica-codemod.js src/
+ */
+const COMPONENT_RENAMES = ${json(rules.componentRenames)};
+const PROP_RENAMES = ${json(rules.propRenames)};
+const REMOVED_BOOLEAN_PROPS = ${json(rules.removedBooleanProps)};
+
+const isBooleanValue = (value) =>
+  value == null ||
+  (value.type === 'JSXExpressionContainer' &&
+    (value.expression.type === 'BooleanLiteral' ||
+      (value.expression.type === 'Literal' && typeof value.expression.value === 'boolean')));
+
+export default function transformer(file, api) {
+  const j = api.jscodeshift;
+  const root = j(file.source);
+  const localToImported = new Map();
+  const renamedLocals = new Map();
+
+  root.find(j.ImportDeclaration, { source: { value: '${MISTICA_PACKAGE}' } }).forEach((path) => {
+    path.node.specifiers.forEach((specifier) => {
+      if (specifier.type !== 'ImportSpecifier') return;
+      const imported = specifier.imported.name;
+      const local = specifier.local ? specifier.local.name : imported;
+      localToImported.set(local, imported);
+
+      const renamed = COMPONENT_RENAMES[imported];
+      if (!renamed) return;
+      specifier.imported = j.identifier(renamed);
+      if (local === imported) {
+        specifier.local = j.identifier(renamed);
+        renamedLocals.set(local, renamed);
+      }
+    });
+  });
+
+  if (localToImported.size === 0) return file.source;
+
+  root.find(j.JSXOpeningElement).forEach((path) => {
+    const opening = path.node;
+    if (opening.name.type !== 'JSXIdentifier') return;
+    const imported = localToImported.get(opening.name.name);
+    if (!imported) return;
+
+    const propRenames = PROP_RENAMES[imported] || {};
+    const removed = REMOVED_BOOLEAN_PROPS[imported] || [];
+
+    opening.attributes = opening.attributes.filter(
+      (attr) => attr.type !== 'JSXAttribute' || !removed.includes(attr.name.name) || !isBooleanValue(attr.value)
+    );
+    opening.attributes.forEach((attr) => {
+      if (attr.type === 'JSXAttribute' && propRenames[attr.name.name]) {
+        attr.name.name = propRenames[attr.name.name];
+      }
+    });
+  });
+
+  // Só referências ao import (escopo do módulo); bindings locais de mesmo nome ficam
+  const programScope = root.find(j.Program).get().scope;
+  const refersToImport = (path, name) => {
+    const scope = path.scope && path.scope.lookup(name);
+    return !scope || scope === programScope;
+  };
+
+  renamedLocals.forEach((renamed, local) => {
+    root.find(j.JSXIdentifier, { name: local }).forEach((path) => {
+      if (path.parent.node.type !== 'JSXAttribute' && refersToImport(path, local)) path.node.name = renamed;
+    });
+    root.find(j.Identifier, { name: local }).forEach((path) => {
+      const parent = path.parent.node;
+      const isObjectProperty = parent.type === 'Property' || parent.type === 'ObjectProperty';
+      if (!refersToImport(path, local)) return;
+      if (isObjectProperty && parent.shorthand && path.parent.parent.node.type === 'ObjectExpression') {
+        // { Old } vira { Old: New }, preservando a chave
+        parent.shorthand = false;
+        parent.key = j.identifier(local);
+        parent.value = j.identifier(renamed);
+        return;
+      }
+      const isPropertyKey =
+        (parent.type === 'MemberExpression' && parent.property === path.node && !parent.computed) ||
+        (isObjectProperty && parent.key === path.node);
+      if (!isPropertyKey) path.node.name = renamed;
+    });
+  });
+
+  return root.toSource();
+}
+`;
+  }
+
+  /**
+   * Aplica as regras sobre o snippet com o AST do TypeScript, sem
+   * alterar a formatação do restante do código
+   */
+  preview(code: string, rules: CodemodRules): CodemodPreview {
+    const { sourceFile, program, imports, elements, syntaxErrors } = this.scanner.scan(code);
+    const edits: TextEdit[] = [];
+    const changes: CodemodChange[] = [];
+    const renamedLocals = new Map<string, string>();
+
+    for (const specifier of imports) {
+      const renamed = rules.componentRenames[specifier.imported];
+      if (!renamed) continue;
+
+      edits.push({ start: specifier.importedStart, end: specifier.importedEnd, text: renamed });
+      if (!specifier.isAliased) {
+        renamedLocals.set(specifier.local, renamed);
+      }
+      changes.push({
+        kind: 'component-rename',
+        description: `${specifier.imported} → ${renamed}`,
+        position: specifier.position,
+      });
+    }
+
+    for (const element of elements) {
+      const propRenames = rules.propRenames[element.component] || {};
+      const removedProps = rules.removedBooleanProps[element.component] || [];
+
+      for (const attribute of element.attributes) {
+        const renamedProp = propRenames[attribute.name];
+        if (renamedProp) {
+          edits.push({ start: attribute.nameStart, end: attribute.nameEnd, text: renamedProp });
+          changes.push({
+            kind: 'prop-rename',
+            description: `${element.component}: ${attribute.name} → ${renamedProp}`,
+            position: attribute.position,
+          });
+        } else if (removedProps.includes(attribute.name)) {
+          if (this.isBooleanInitializer(attribute.initializer)) {
+            edits.push({ start: attribute.start, end: attribute.end, text: '' });
+            changes.push({
+              kind: 'prop-removal',
+              description: `${element.component}: prop booleana ${attribute.name} removida`,
+              position: attribute.position,
+            });
+          } else {
+            changes.push({
+              kind: 'manual-review',
+              description: `${element.component}: prop ${attribute.name} foi removida, mas recebe uma expressão`,
+              position: attribute.position,
+            });
+          }
+        }
+      }
+
+      if (element.hasSpreadAttributes && (Object.keys(propRenames).length > 0 || removedProps.length > 0)) {
+        changes.push({
+          kind: 'manual-review',
+          description: `${element.component}: spread de props pode conter props renomeadas ou removidas`,
+          position: element.position,
+        });
+      }
+    }
+
+    if (renamedLocals.size > 0) {
+      edits.push(...this.collectIdentifierRenames(sourceFile, program.getTypeChecker(), renamedLocals));
+    }
+
+    const output = this.applyEdits(code, edits);
+    changes.sort((a, b) => a.position.line - b.position.line || a.position.column - b.position.column);
+
+    return {
+      output,
+      changes,
+      diff: this.lineDiff(code, output),
+      syntaxErrors,
+    };
+  }
+
+  /**
+   * Renomeia as referências ao componente no arquivo (tags JSX, usos em
+   * expressões). Só identificadores cujo símbolo é o próprio import são
+   * alterados: nomes de propriedades e bindings que o sombreiam ficam como
+   * estão, e `{ ButtonOld }` vira `{ ButtonOld: ButtonNew }` para preservar
+   * a chave do objeto.
+   */
+  private collectIdentifierRenames(
+    sourceFile: ts.SourceFile,
+    checker: ts.TypeChecker,
+    renamedLocals: Map<string, string>
+  ): TextEdit[] {
+    const edits: TextEdit[] = [];
+    const importSymbols = new Map<ts.Symbol, string>();
+
+    for (const statement of sourceFile.statements) {
+      if (
+        !ts.isImportDeclaration(statement) ||
+        !ts.isStringLiteral(statement.moduleSpecifier) ||
+        statement.moduleSpecifier.text !== MISTICA_PACKAGE
+      ) {
+        continue;
+      }
+      const bindings = statement.importClause?.namedBindings;
+      if (!bindings || !ts.isNamedImports(bindings)) continue;
+
+      for (const specifier of bindings.elements) {
+        const renamed = renamedLocals.get(specifier.name.text);
+        const symbol = checker.getSymbolAtLocation(specifier.name);
+        if (renamed && symbol) importSymbols.set(symbol, renamed);
+      }
+    }
+
+    const visit = (node: ts.Node) => {
+      if (ts.isIdentifier(node) && renamedLocals.has(node.text)) {
+        const parent = node.parent;
+        const start = node.getStart(sourceFile);
+
+        if (ts.isShorthandPropertyAssignment(parent) && parent.name === node) {
+          const renamed = this.lookupRename(checker.getShorthandAssignmentValueSymbol(parent), importSymbols);
+          if (renamed) edits.push({ start, end: node.getEnd(), text: `${node.text}: ${renamed}` });
+        } else if (!this.isPropertyName(node)) {
+          const renamed = this.lookupRename(checker.getSymbolAtLocation(node), importSymbols);
+          if (renamed) edits.push({ start, end: node.getEnd(), text: renamed });
+        }
+      }
+      ts.forEachChild(node, visit);
+    };
+    visit(sourceFile);
+
+    return edits;
+  }
+
+  private lookupRename(symbol: ts.Symbol | undefined, importSymbols: Map<ts.Symbol, string>): string | undefined {
+    return symbol ? importSymbols.get(symbol) : undefined;
+  }
+
+  private isPropertyName(node: ts.Identifier): boolean {
+    const parent = node.parent;
+    return (
+      (ts.isPropertyAccessExpression(parent) && parent.name === node) ||
+      (ts.isPropertyAssignment(parent) && parent.name === node) ||
+      (ts.isJsxAttribute(parent) && parent.name === node) ||
+      (ts.isPropertySignature(parent) && parent.name === node)
+    );
+  }
+
+  /**
+   * Aplica as edições do fim para o início, descartando sobreposições
+   * (ex: o especificador do import também é um identificador renomeado)
+   */
+  private applyEdits(code: string, edits: TextEdit[]): string {
+    const sorted = [...edits].sort((a, b) => b.start - a.start || b.end - a.end);
+    let output = code;
+    let lastStart = Infinity;
+
+    for (const edit of sorted) {
+      if (edit.end > lastStart) continue;
+      output = output.slice(0, edit.start) + edit.text + output.slice(edit.end);
+      lastStart = edit.start;
+    }
+
+    return output;
+  }
+
+  private isBooleanInitializer(initializer?: ts.JsxAttributeValue): boolean {
+    if (!initializer) return true;
+    if (!ts.isJsxExpression(initializer) || !initializer.expression) return false;
+    const kind = initializer.expression.kind;
+    return kind === ts.SyntaxKind.TrueKeyword || kind === ts.SyntaxKind.FalseKeyword;
+  }
+
+  private isBooleanType(type?: string): boolean {
+    if (!type) return false;
+    return type
+      .split('|')
+      .map(part => part.trim())
+      .every(part => ['boolean', 'true', 'false', 'undefined'].includes(part));
+  }
+
+  /**
+   * Diff linha a linha baseado na maior subsequência comum
+   */
+  private lineDiff(before: string, after: string): string {
+    const a = before.split('\n');
+    const b = after.split('\n');
+    const lcs: number[][] = Array.from({ length: a.length + 1 }, () => new Array(b.length + 1).fill(0));
+
+    for (let i = a.length - 1; i >= 0; i--) {
+      for (let j = b.length - 1; j >= 0; j--) {
+        lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+      }
+    }
+
+    const lines: string[] = [];
+    let i = 0;
+    let j = 0;
+    while (i < a.length || j < b.length) {
+      if (i < a.length && j < b.length && a[i] === b[j]) {
+        lines.push(`  ${a[i]}`);
+        i++;
+        j++;
+      } else if (i < a.length && (j >= b.length || lcs[i + 1][j] >= lcs[i][j + 1])) {
+        lines.push(`- ${a[i]}`);
+        i++;
+      } else {
+        lines.push(`+ ${b[j]}`);
+        j++;
+      }
+    }
+
+    return lines.join('\n');
+  }
+}
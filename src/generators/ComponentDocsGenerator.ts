@@ -0,0 +1,210 @@
+/**
+ * 📗 ComponentDocsGenerator - Documentação completa de um único componente
+ *
+ * Responsabilidade: Localizar o componente (id, nome ou nome aproximado) e
+ * reunir em um só objeto a descrição, a tabela de props resolvida, as
+ * stories do Storybook com seus args, componentes relacionados, o import,
+ * as depreciações e os tokens da skin ligados ao componente.
+ */
+import type {
+  ComponentProp,
+  ComponentStory,
+  DeprecationInfo,
+  DesignToken,
+  MisticaComponent,
+} from '../types/mistica.js';
+import { findClosestMatch } from '../utils/helpers.js';
+
+export type ComponentLookupMatch = 'id' | 'name' | 'fuzzy';
+
+export interface ComponentLookup {
+  component: MisticaComponent;
+  matchedBy: ComponentLookupMatch;
+}
+
+export interface ComponentDocs {
+  id: string;
+  name: string;
+  category: string;
+  description: string;
+  importPath: string;
+  importStatement: string;
+  version?: string;
+  storyUrl: string;
+  props: ComponentProp[];
+  stories: ComponentStory[];
+  related: string[];
+  deprecations: {
+    component?: DeprecationInfo;
+    props: Array<DeprecationInfo & { prop: string }>;
+  };
+  tokens: DesignToken[];
+}
+
+const DEFAULT_PACKAGE = '@telefonica/mistica';
+const MAX_RELATED = 8;
+const MAX_TOKENS = 20;
+
+// Sufixos de variante que não identificam a família do componente
+const VARIANT_SUFFIX = /(primary|secondary|danger|link)$/;
+
+export class ComponentDocsGenerator {
+  /**
+   * Procura primeiro pelo id exato, depois pelo nome (sem diferenciar
+   * maiúsculas, espaços ou hífens) e por último pelo nome mais próximo
+   */
+  resolveComponent(query: string, components: MisticaComponent[]): ComponentLookup | null {
+    const trimmed = query.trim();
+
+    const byId = components.find(c => c.id === trimmed);
+    if (byId) return { component: byId, matchedBy: 'id' };
+
+    const normalized = this.normalize(trimmed);
+    const byName = components.find(c => this.normalize(c.name) === normalized);
+    if (byName) return { component: byName, matchedBy: 'name' };
+
+    const closest = findClosestMatch(
+      normalized,
+      components.map(c => this.normalize(c.name))
+    );
+    const fuzzy = closest && components.find(c => this.normalize(c.name) === closest);
+    return fuzzy ? { component: fuzzy, matchedBy: 'fuzzy' } : null;
+  }
+
+  generate(
+    component: MisticaComponent,
+    allComponents: MisticaComponent[],
+    tokens: DesignToken[] = []
+  ): ComponentDocs {
+    const importPath = component.npmInfo?.package || DEFAULT_PACKAGE;
+    const exportName = component.npmInfo?.exportName || component.name;
+    const props = component.props || [];
+
+    return {
+      id: component.id,
+      name: component.name,
+      category: component.category,
+      description: component.description,
+      importPath,
+      importStatement: `import { ${exportName} } from '${importPath}';`,
+      version: component.npmInfo?.version,
+      storyUrl: component.storyUrl,
+      props,
+      stories: component.stories || [],
+      related: this.findRelated(component, allComponents),
+      deprecations: {
+        component: component.deprecation,
+        props: props
+          .filter(p => p.deprecation)
+          .map(p => ({ prop: p.name, ...p.deprecation! })),
+      },
+      tokens: this.findTokens(component, tokens),
+    };
+  }
+
+  /**
+   * Markdown compacto com as mesmas informações, usado como texto legível
+   */
+  toMarkdown(docs: ComponentDocs): string {
+    let markdown = `# ${docs.name}\n\n${docs.description}\n\n`;
+
+    if (docs.deprecations.component) {
+      const { message, replacement } = docs.deprecations.component;
+      markdown += `> ⚠️ Depreciado: ${message}${replacement ? ` (use ${replacement})` : ''}\n\n`;
+    }
+
+    markdown += '```tsx\n' + docs.importStatement + '\n```\n\n';
+
+    if (docs.props.length > 0) {
+      markdown += `## Props (${docs.props.length})\n\n`;
+      markdown += '| Prop | Tipo | Obrigatória | Default |\n|------|------|-------------|---------|\n';
+      docs.props.forEach(p => {
+        const deprecated = p.deprecation ? ' ⚠️' : '';
+        markdown += `| ${p.name}${deprecated} | \`${(p.type || '—').replace(/\|/g, '\\|')}\` | ${p.required ? 'sim' : 'não'} | ${p.defaultValue ?? '—'} |\n`;
+      });
+      markdown += '\n';
+    }
+
+    if (docs.deprecations.props.length > 0) {
+      markdown += '## Props depreciadas\n\n';
+      docs.deprecations.props.forEach(d => {
+        markdown += `- ${d.prop}: ${d.message}${d.replacement ? ` (use ${d.replacement})` : ''}\n`;
+      });
+      markdown += '\n';
+    }
+
+    markdown += `## Stories\n\n`;
+    if (docs.stories.length === 0) {
+      markdown += `- ${docs.storyUrl}\n`;
+    }
+    docs.stories.forEach(story => {
+      const args = story.args && Object.keys(story.args).length > 0
+        ? ` — args: ${JSON.stringify(story.args)}`
+        : '';
+      markdown += `- [${story.name}](${story.url})${args}\n`;
+    });
+    markdown += '\n';
+
+    if (docs.related.length > 0) {
+      markdown += `## Relacionados\n\n${docs.related.join(', ')}\n\n`;
+    }
+
+    if (docs.tokens.length > 0) {
+      markdown += `## Tokens\n\n`;
+      docs.tokens.forEach(t => (markdown += `- ${t.name}: ${t.value}\n`));
+    }
+
+    return markdown;
+  }
+
+  /**
+   * Mesma família (primeira ou última palavra do nome), substituto indicado
+   * na depreciação e componentes que apontam este como substituto
+   */
+  private findRelated(component: MisticaComponent, allComponents: MisticaComponent[]): string[] {
+    const words = this.splitWords(component.name);
+    const first = words[0];
+    const last = words[words.length - 1];
+    const related = new Set<string>();
+
+    if (component.deprecation?.replacement) {
+      related.add(component.deprecation.replacement);
+    }
+
+    for (const other of allComponents) {
+      if (other.name === component.name) continue;
+      if (other.deprecation?.replacement === component.name) {
+        related.add(other.name);
+        continue;
+      }
+      const otherWords = this.splitWords(other.name);
+      const sameFamily =
+        (first.length >= 3 && otherWords[0] === first) ||
+        (last.length >= 3 && otherWords[otherWords.length - 1] === last);
+      if (sameFamily) {
+        related.add(other.name);
+      }
+    }
+
+    return [...related].slice(0, MAX_RELATED);
+  }
+
+  private findTokens(component: MisticaComponent, tokens: DesignToken[]): DesignToken[] {
+    const base = component.name.toLowerCase().replace(VARIANT_SUFFIX, '');
+    const matches = tokens.filter(t => t.name.toLowerCase().includes(base));
+    const own = component.designTokens || [];
+    const seen = new Set<string>();
+
+    return [...own, ...matches]
+      .filter(t => !seen.has(t.name) && seen.add(t.name))
+      .slice(0, MAX_TOKENS);
+  }
+
+  private splitWords(name: string): string[] {
+    return (name.match(/[A-Z]?[a-z0-9]+|[A-Z]+(?![a-z])/g) || [name]).map(w => w.toLowerCase());
+  }
+
+  private normalize(value: string): string {
+    return value.toLowerCase().replace(/[^a-z0-9]/g, '');
+  }
+}
@@ -0,0 +1,49 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { RefactoringGenerator } from './RefactoringGenerator.js';
+import { FigmaAnalyzer } from '../analyzers/FigmaAnalyzer.js';
+import type { IconSuggestion } from '../mappers/ComponentMapper.js';
+
+const listCode = [
+  '<div className="list">',
+  '  <ul>',
+  '    <li onClick={go}><img src="wifi-icon.svg" alt="wifi icon" /><span>Wi-Fi</span><img src="chevron-right.svg" /></li>',
+  '    <li onClick={go}><span>Item</span></li>',
+  '  </ul>',
+  '</div>',
+].join('\n');
+
+const wifiIcon = {
+  layer: 'wifi-icon',
+  role: 'asset',
+  icon: { name: 'IconWifiRegular' },
+  score: 1,
+} as IconSuggestion;
+
+function importedNames(refactoring: string): string[] {
+  const [, names] = refactoring.match(/import \{ (.+) \} from '@telefonica\/mistica';/)!;
+  return names.split(', ');
+}
+
+describe('RefactoringGenerator.generateGenericRefactoring', () => {
+  test('importa exatamente os componentes e ícones usados no JSX', () => {
+    const analysis = new FigmaAnalyzer().analyzeFigmaCode(listCode);
+    assert.equal(analysis.patterns.listPattern, true);
+
+    const refactoring = new RefactoringGenerator().generateGenericRefactoring(
+      analysis.elements,
+      analysis.structure,
+      analysis.patterns,
+      [],
+      [wifiIcon]
+    );
+
+    assert.deepEqual(importedNames(refactoring), [
+      'Box',
+      'BoxedRowList',
+      'BoxedRow',
+      'IconWifiRegular',
+      'IconChevronRightRegular',
+    ]);
+  });
+});
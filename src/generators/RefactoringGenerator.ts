@@ -1,7 +1,10 @@
-import type { ComponentSuggestion } from '../mappers/ComponentMapper.js';
+import type { ComponentSuggestion, IconSuggestion } from '../mappers/ComponentMapper.js';
 import type { UIElements } from '../analyzers/ElementExtractor.js';
 import type { UIPatterns, StructuralAnalysis } from '../analyzers/PatternDetector.js';
 
+// Chevron exportado pelo Mística, usado quando o índice de ícones não resolveu um
+const FALLBACK_CHEVRON_ICON = 'IconChevronRightRegular';
+
 /**
  * 🔄 RefactoringGenerator - Gera código refatorado com Mística
  * 
@@ -17,31 +20,26 @@ export class RefactoringGenerator {
     elements: UIElements,
     structure: StructuralAnalysis,
     patterns: UIPatterns,
-    suggestions: ComponentSuggestion[]
+    suggestions: ComponentSuggestion[],
+    icons: IconSuggestion[] = []
   ): string {
-    let refactoring = '```tsx\n';
-    refactoring += 'import { ';
-    
-    // Imports dos top 5 componentes sugeridos
-    const topComponents = suggestions.slice(0, 5);
-    const imports = topComponents.map(s => s.component.name).join(', ');
-    refactoring += imports;
-    refactoring += ' } from \'@telefonica/mistica\';\n\n';
-    
-    refactoring += 'export default function RefactoredComponent() {\n';
-    refactoring += '  return (\n';
-    
     // Estrutura baseada nos padrões detectados
+    let body: string;
     if (patterns.listPattern) {
-      refactoring += this.generateListPattern(elements, structure);
+      body = this.generateListPattern(elements, structure, icons);
     } else if (patterns.cardPattern) {
-      refactoring += this.generateCardPattern(elements, structure, patterns);
+      body = this.generateCardPattern(elements, structure, patterns);
     } else if (patterns.formPattern) {
-      refactoring += this.generateFormPattern(elements, structure);
+      body = this.generateFormPattern(elements, structure);
     } else {
-      refactoring += this.generateGenericPattern(elements, structure, patterns);
+      body = this.generateGenericPattern(elements, structure, patterns);
     }
     
+    let refactoring = '```tsx\n';
+    refactoring += `import { ${this.getUsedComponents(body).join(', ')} } from '@telefonica/mistica';\n\n`;
+    refactoring += 'export default function RefactoredComponent() {\n';
+    refactoring += '  return (\n';
+    refactoring += body;
     refactoring += '  );\n';
     refactoring += '}\n';
     refactoring += '```\n\n';
@@ -55,10 +53,20 @@ export class RefactoringGenerator {
     return refactoring;
   }
 
+  /**
+   * Componentes e ícones presentes no JSX gerado, na ordem em que aparecem:
+   * o import cobre exatamente o que o exemplo usa
+   */
+  private getUsedComponents(jsx: string): string[] {
+    const tags = [...jsx.matchAll(/<([A-Z]\w*)/g)].map(match => match[1]);
+    return [...new Set(tags)];
+  }
+
   /**
    * Gera padrão de lista
    */
-  private generateListPattern(elements: UIElements, structure: StructuralAnalysis): string {
+  private generateListPattern(elements: UIElements, structure: StructuralAnalysis, icons: IconSuggestion[]): string {
+    const { assets, chevron } = this.getListIcons(elements, icons);
     let code = '    <Box padding={16}>\n';
     
     if (elements.navigation.found) {
@@ -66,38 +74,44 @@ export class RefactoringGenerator {
     }
     
     code += '      <BoxedRowList>\n';
-    code += '        <BoxedRow\n';
-    code += '          headline="Item 1"\n';
-    code += '          onPress={() => {}}\n';
-    
-    if (elements.icons.found) {
-      code += '          asset={<IconComponent />}\n';
-    }
-    
-    if (elements.lists.hasNavigation) {
-      code += '          right={<IconChevronRight />}\n';
-    }
-    
-    code += '        />\n';
-    code += '        <BoxedRow\n';
-    code += '          headline="Item 2"\n';
-    code += '          onPress={() => {}}\n';
-    
-    if (elements.icons.found) {
-      code += '          asset={<IconComponent />}\n';
-    }
-    
-    if (elements.lists.hasNavigation) {
-      code += '          right={<IconChevronRight />}\n';
-    }
-    
-    code += '        />\n';
+    ['Item 1', 'Item 2'].forEach((headline, index) => {
+      code += '        <BoxedRow\n';
+      code += `          headline="${headline}"\n`;
+      code += '          onPress={() => {}}\n';
+      
+      // Ícones concretos resolvidos a partir das camadas do Figma
+      const asset = assets[index] || assets[0];
+      if (asset) {
+        code += `          asset={<${asset} />}\n`;
+      }
+      
+      if (chevron) {
+        code += `          right={<${chevron} />}\n`;
+      }
+      
+      code += '        />\n';
+    });
     code += '      </BoxedRowList>\n';
     code += '    </Box>\n';
     
     return code;
   }
 
+  /**
+   * Ícones usados nas linhas da lista: assets das camadas detectadas e o
+   * chevron de navegação (IconChevronRightRegular quando o índice não o
+   * encontrou)
+   */
+  private getListIcons(elements: UIElements, icons: IconSuggestion[]) {
+    const assets = elements.icons.found
+      ? icons.filter(s => s.role === 'asset').slice(0, 2).map(s => s.icon.name)
+      : [];
+    const resolvedChevron = icons.find(s => s.role === 'navigation')?.icon.name;
+    const chevron = elements.lists.hasNavigation ? resolvedChevron || FALLBACK_CHEVRON_ICON : undefined;
+
+    return { assets, chevron };
+  }
+
   /**
    * Gera padrão de card
    */
@@ -212,6 +226,7 @@ export class RefactoringGenerator {
 • Use \`BoxedRowList\` + \`BoxedRow\` para listas interativas com navegação
 • Use \`RowList\` para listas simples sem estrutura boxed
 • Adicione ícones com a prop \`asset\` e indicadores com \`right\`
+• Encontre o ícone exato com a ferramenta \`search_mistica_icons\`
 
 `;
     }
@@ -5,14 +5,20 @@
  * - Padronizar saída para melhor consumo via MCP / copilots
  * - Adaptar exemplos conforme tipo (Button, Field, Layout, etc.)
  * - Incluir: import, uso básico, variantes, composição, acessibilidade, props chave
+ * - Preferir o código real das stories do Storybook; heurísticas só como fallback
  */
 import type { MisticaComponent } from '../types/interfaces.js';
+import type { ColorScheme, DesignToken, MisticaSkinName } from '../types/mistica.js';
+import { MISTICA_SKINS, generateThemeProviderSnippet } from '../utils/skins.js';
 
 export interface UsageExampleOptions {
   format?: 'react' | 'html' | 'both';
   variant?: string;
   includeAdvanced?: boolean;
   maxProps?: number;
+  skin?: MisticaSkinName;
+  tokens?: DesignToken[];
+  colorScheme?: ColorScheme;
 }
 
 interface GeneratedSection {
@@ -20,6 +26,9 @@ interface GeneratedSection {
   content: string;
 }
 
+// Limite de stories extras exibidas na seção de variantes
+const MAX_STORY_VARIANTS = 4;
+
 export class UsageExampleGenerator {
   generate(component: MisticaComponent, options: UsageExampleOptions = {}): string {
     const format = options.format || 'react';
@@ -31,9 +40,21 @@ export class UsageExampleGenerator {
     sections.push(this.sectionHeader(cleanName, component));
     sections.push(this.sectionWhenToUse(cleanName, component));
     sections.push(this.sectionImport(cleanName, component));
-    sections.push(this.sectionBasicUsage(cleanName, component, format));
 
-    const variantSection = this.sectionVariants(cleanName, component, format);
+    if (options.skin) sections.push(this.sectionTheme(options.skin));
+
+    const stories = this.getStoryExamples(component);
+    const basicStory = this.pickBasicStory(stories, options.variant);
+    sections.push(
+      basicStory && format !== 'html'
+        ? this.sectionStoryUsage(cleanName, basicStory, format)
+        : this.sectionBasicUsage(cleanName, component, format)
+    );
+
+    const otherStories = stories.filter(story => story !== basicStory);
+    const variantSection = otherStories.length && format !== 'html'
+      ? this.sectionStoryVariants(otherStories)
+      : this.sectionVariants(cleanName, component, format);
     if (variantSection) sections.push(variantSection);
 
     const composition = this.sectionComposition(cleanName, component, format);
@@ -45,6 +66,9 @@ export class UsageExampleGenerator {
     const props = this.sectionProps(cleanName, component, maxProps);
     if (props) sections.push(props);
 
+    const skinTokens = this.sectionSkinTokens(cleanName, options.skin, options.tokens, options.colorScheme);
+    if (skinTokens) sections.push(skinTokens);
+
     const related = this.sectionRelated(cleanName, component);
     if (related) sections.push(related);
 
@@ -56,10 +80,14 @@ export class UsageExampleGenerator {
 
   // ===== Sections =====
   private sectionHeader(name: string, component: MisticaComponent): GeneratedSection {
-    return {
-      title: `Exemplos de uso: ${name}`,
-      content: `${component.description || 'Componente do design system Mística.'}`
-    };
+    let content = `${component.description || 'Componente do design system Mística.'}`;
+    if (component.deprecation) {
+      content += `\n\n> ⚠️ **Depreciado**: ${component.deprecation.message}`;
+      if (component.deprecation.replacement) {
+        content += `\n> Prefira \`${component.deprecation.replacement}\`.`;
+      }
+    }
+    return { title: `Exemplos de uso: ${name}`, content };
   }
 
   private sectionWhenToUse(name: string, component: MisticaComponent): GeneratedSection {
@@ -84,6 +112,13 @@ export class UsageExampleGenerator {
     return { title: 'Import', content: '```tsx\n' + importLine + '\n```' };
   }
 
+  private sectionTheme(skin: MisticaSkinName): GeneratedSection {
+    return {
+      title: `Tema (${MISTICA_SKINS[skin].label})`,
+      content: '```tsx\n' + generateThemeProviderSnippet(skin) + '\n```'
+    };
+  }
+
   private sectionBasicUsage(name: string, component: MisticaComponent, format: string): GeneratedSection {
     const kind = this.detectKind(name, component);
     let code = '';
@@ -116,6 +151,25 @@ export class UsageExampleGenerator {
     return { title: 'Uso básico', content: '```tsx\n' + code + '\n```' };
   }
 
+  private sectionStoryUsage(name: string, story: any, format: string): GeneratedSection {
+    let content = `Story "${story.title}" do Storybook:\n\n` + '```tsx\n' + story.code + '\n```';
+    if (format === 'both') {
+      content += '\n\n**HTML (conceitual)**\n```html\n<div class="' + name.toLowerCase() + '">...</div>\n```';
+    }
+    return { title: 'Uso básico', content };
+  }
+
+  private sectionStoryVariants(stories: any[]): GeneratedSection {
+    const shown = stories.slice(0, MAX_STORY_VARIANTS);
+    let content = shown
+      .map(story => `**${story.title}**\n\n` + '```tsx\n' + story.code + '\n```')
+      .join('\n\n');
+    if (stories.length > shown.length) {
+      content += `\n\n… +${stories.length - shown.length} stories no Storybook`;
+    }
+    return { title: 'Variantes', content };
+  }
+
   private sectionVariants(name: string, component: MisticaComponent, format: string): GeneratedSection | null {
     const lower = name.toLowerCase();
     const isButton = /button/.test(lower) && !/group/.test(lower);
@@ -164,16 +218,42 @@ export class UsageExampleGenerator {
 
   private sectionProps(name: string, component: MisticaComponent, max: number): GeneratedSection | null {
     if (!component.props || !component.props.length) return null;
-    const rows = component.props.slice(0, max).map((p: any) => {
+    // Props atuais primeiro; depreciadas vão para o fim da tabela
+    const ordered = [...component.props].sort((a: any, b: any) => Number(!!a.deprecation) - Number(!!b.deprecation));
+    const rows = ordered.slice(0, max).map((p: any) => {
       const type = p.type || p.tsType || p.kind || '—';
-      const def = p.defaultValue?.value || p.default || '—';
-      const desc = (p.description || '').replace(/\n+/g, ' ').trim() || '—';
-      return `| ${p.name} | ${type} | ${def} | ${desc} |`;
+      const def = p.defaultValue?.value || p.defaultValue || p.default || '—';
+      let desc = (p.description || '').replace(/\n+/g, ' ').trim() || '—';
+      if (p.deprecation) {
+        const note = `⚠️ Depreciada${p.deprecation.replacement ? ` (use ${p.deprecation.replacement})` : ''}`;
+        desc = desc === '—' ? note : `${note}. ${desc}`;
+      }
+      // `|` dos tipos union quebraria as colunas da tabela
+      const cell = (value: unknown) => String(value).replace(/\|/g, '\\|');
+      return `| ${p.name} | \`${cell(type)}\` | ${cell(def)} | ${cell(desc)} |`;
     });
     const header = '| Prop | Tipo | Default | Descrição |\n|------|------|---------|-----------|';
     return { title: 'Props principais', content: header + '\n' + rows.join('\n') + (component.props.length > max ? `\n\n… +${component.props.length - max} props` : '') };
   }
 
+  private sectionSkinTokens(
+    name: string,
+    skin?: MisticaSkinName,
+    tokens?: DesignToken[],
+    colorScheme: ColorScheme = 'light'
+  ): GeneratedSection | null {
+    if (!skin || !tokens || !tokens.length) return null;
+    const base = name.toLowerCase().replace(/(primary|secondary|danger|link)$/, '');
+    const matches = tokens.filter(t => t.name.toLowerCase().includes(base)).slice(0, 12);
+    if (!matches.length) return null;
+    const rows = matches.map(t => `| ${t.name} | ${t.modes?.[colorScheme] ?? t.value} |`);
+    const header = '| Token | Valor |\n|-------|-------|';
+    return {
+      title: `Tokens da skin ${MISTICA_SKINS[skin].label} (${colorScheme})`,
+      content: header + '\n' + rows.join('\n')
+    };
+  }
+
   private sectionRelated(name: string, component: MisticaComponent): GeneratedSection | null {
     const related: string[] = [];
     const lower = name.toLowerCase();
@@ -187,6 +267,30 @@ export class UsageExampleGenerator {
   }
 
   // ===== Helpers =====
+  /**
+   * Exemplos vindos de stories, com o código fonte real antes do JSX
+   * montado a partir dos args
+   */
+  private getStoryExamples(component: MisticaComponent): any[] {
+    const examples = (component.examples || []).filter(
+      (ex: any) => ex?.code && (ex.origin === 'story-source' || ex.origin === 'story-args')
+    );
+    return [
+      ...examples.filter((ex: any) => ex.origin === 'story-source'),
+      ...examples.filter((ex: any) => ex.origin === 'story-args'),
+    ];
+  }
+
+  private pickBasicStory(stories: any[], variant?: string): any | undefined {
+    if (!stories.length) return undefined;
+    const wanted = variant?.toLowerCase();
+    return (
+      (wanted && stories.find(s => [s.variant, s.title].some(v => v?.toLowerCase() === wanted))) ||
+      stories.find(s => /^(default|primary|basic|playground)/i.test(s.title)) ||
+      stories[0]
+    );
+  }
+
   private normalizeComponentName(raw: string): string {
     return raw.replace(/^default as /i, '').trim();
   }
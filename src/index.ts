@@ -3,17 +3,89 @@ import { Server } from "@modelcontextprotocol/sdk/server/index.js";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
 import {
   CallToolRequestSchema,
+  GetPromptRequestSchema,
+  ListPromptsRequestSchema,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
   ListToolsRequestSchema,
+  McpError,
+  ReadResourceRequestSchema,
 } from "@modelcontextprotocol/sdk/types.js";
+import type { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
 import { MisticaTools } from "./tools/MisticaTools.js";
-import { CacheManager } from "./cache/CacheManager.js";
+import { MisticaResources } from "./resources/MisticaResources.js";
+import { MisticaPrompts } from "./prompts/MisticaPrompts.js";
+import {
+  CacheManager,
+  createCacheBackend,
+  getCacheNamespace,
+} from "./cache/CacheManager.js";
+import { getServerDefaultSkin } from "./utils/skins.js";
+import {
+  getCacheOptions,
+  getCatalogPath,
+  getServerTransportOptions,
+} from "./utils/serverOptions.js";
+import type { ServerTransportOptions } from "./utils/serverOptions.js";
+import { MisticaHttpServer } from "./transport/MisticaHttpServer.js";
+import { MisticaCatalog } from "./catalog/MisticaCatalog.js";
+import { MisticaScraper } from "./scraper/MisticaScraper.js";
+import { MisticaTokenExtractor } from "./scraper/MisticaTokenExtractor.js";
 
 class MisticaMCPServer {
-  private server: Server;
+  private stdioServer?: Server;
+  private httpServer?: MisticaHttpServer;
   private misticaTools: MisticaTools;
+  private misticaResources: MisticaResources;
+  private misticaPrompts: MisticaPrompts;
+  private options: ServerTransportOptions;
+  private cacheManager: CacheManager;
+  private catalog?: MisticaCatalog;
 
   constructor() {
-    this.server = new Server(
+    this.options = getServerTransportOptions();
+    const catalogPath = getCatalogPath();
+    this.catalog = catalogPath ? new MisticaCatalog(catalogPath) : undefined;
+
+    // Ferramentas, scraper e cache são compartilhados entre todas as sessões
+    const cacheOptions = getCacheOptions();
+    this.cacheManager = new CacheManager(
+      createCacheBackend(cacheOptions.backend, cacheOptions.dir),
+      undefined,
+      { namespace: getCacheNamespace(), memory: cacheOptions.memory }
+    );
+    // Uma única instância de cada, para que o refresh em segundo plano
+    // aconteça uma vez só
+    const misticaScraper = new MisticaScraper(this.cacheManager, this.catalog);
+    const tokenExtractor = new MisticaTokenExtractor(
+      this.cacheManager,
+      this.catalog
+    );
+    this.misticaTools = new MisticaTools(
+      this.cacheManager,
+      misticaScraper,
+      tokenExtractor,
+      getServerDefaultSkin(),
+      this.catalog
+    );
+    this.misticaResources = new MisticaResources(
+      misticaScraper,
+      tokenExtractor,
+      getServerDefaultSkin()
+    );
+    this.misticaPrompts = new MisticaPrompts(
+      this.misticaTools,
+      this.misticaResources,
+      getServerDefaultSkin()
+    );
+    this.setupShutdown();
+  }
+
+  /**
+   * Cria uma instância do Server MCP. No modo HTTP cada sessão tem a sua.
+   */
+  private createServer(): Server {
+    const server = new Server(
       {
         name: "mistica-mcp-server",
         version: "1.0.0",
@@ -21,36 +93,30 @@ class MisticaMCPServer {
       {
         capabilities: {
           tools: {},
+          resources: {},
+          prompts: {},
         },
       }
     );
 
-    const cacheManager = new CacheManager();
-    this.misticaTools = new MisticaTools(cacheManager);
-    this.setupHandlers();
+    this.setupHandlers(server);
+    return server;
   }
 
-  private setupHandlers() {
+  private setupHandlers(server: Server) {
     // Handler para listar ferramentas disponíveis
-    this.server.setRequestHandler(ListToolsRequestSchema, async () => {
-      const toolsMap = this.misticaTools.getAllTools();
-      const tools = Object.values(toolsMap);
+    server.setRequestHandler(ListToolsRequestSchema, async () => {
+      const tools = this.misticaTools.getAllTools();
 
       console.error(
         `📋 Listando ${tools.length} ferramentas do Mística MCP Server`
       );
 
-      return {
-        tools: tools.map((tool: any) => ({
-          name: tool.name,
-          description: tool.description,
-          inputSchema: tool.inputSchema,
-        })),
-      };
+      return { tools };
     });
 
     // Handler para executar ferramentas
-    this.server.setRequestHandler(CallToolRequestSchema, async (request) => {
+    server.setRequestHandler(CallToolRequestSchema, async (request) => {
       const { name, arguments: args } = request.params;
 
       console.error(`🔧 Executando ferramenta: ${name}`);
@@ -61,17 +127,15 @@ class MisticaMCPServer {
 
         console.error(`✅ Ferramenta ${name} executada com sucesso`);
 
-        return {
-          content: [
-            {
-              type: "text",
-              text: JSON.stringify(result, null, 2),
-            },
-          ],
-        };
+        return this.formatToolResult(result);
       } catch (error) {
         console.error(`❌ Erro ao executar ferramenta ${name}:`, error);
 
+        // Ferramenta desconhecida ou argumentos inválidos: erro de protocolo
+        if (error instanceof McpError) {
+          throw error;
+        }
+
         const errorMessage =
           error instanceof Error ? error.message : "Erro desconhecido";
 
@@ -95,34 +159,121 @@ class MisticaMCPServer {
       }
     });
 
-    process.on("SIGINT", async () => {
-      console.error("🛑 Recebido SIGINT, fechando servidor...");
-      await this.server.close();
-      process.exit(0);
+    // Handlers de recursos (catálogo de componentes, categorias e tokens)
+    server.setRequestHandler(ListResourcesRequestSchema, async () => {
+      const resources = await this.misticaResources.listResources();
+      console.error(`📎 Listando ${resources.length} recursos do Mística`);
+      return { resources };
     });
 
-    process.on("SIGTERM", async () => {
-      console.error("🛑 Recebido SIGTERM, fechando servidor...");
-      await this.server.close();
-      process.exit(0);
+    server.setRequestHandler(
+      ListResourceTemplatesRequestSchema,
+      async () => ({
+        resourceTemplates: this.misticaResources.getResourceTemplates(),
+      })
+    );
+
+    server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
+      console.error(`📖 Lendo recurso: ${request.params.uri}`);
+      return this.misticaResources.readResource(request.params.uri);
     });
+
+    // Handlers de prompts para os fluxos mais comuns
+    server.setRequestHandler(ListPromptsRequestSchema, async () => ({
+      prompts: this.misticaPrompts.getAllPrompts(),
+    }));
+
+    server.setRequestHandler(GetPromptRequestSchema, async (request) => {
+      const { name, arguments: args } = request.params;
+      console.error(`💬 Gerando prompt: ${name}`);
+      return this.misticaPrompts.getPrompt(name, args);
+    });
+
   }
 
-  async start() {
-    const transport = new StdioServerTransport();
+  /**
+   * Separa o resultado de uma ferramenta em `structuredContent` (dados
+   * descritos pelo outputSchema) e um texto legível com a `message`.
+   * Resultados com `error` viram respostas `isError` sem conteúdo estruturado.
+   */
+  private formatToolResult(result: Record<string, any>): CallToolResult {
+    if (result.error) {
+      const { error, ...details } = result;
+      const text =
+        Object.keys(details).length > 0
+          ? `${error}\n\n${JSON.stringify(details, null, 2)}`
+          : error;
+      return { content: [{ type: "text", text }], isError: true };
+    }
+
+    const { message, ...structuredContent } = result;
+    return {
+      content: [
+        {
+          type: "text",
+          text: message || JSON.stringify(structuredContent, null, 2),
+        },
+      ],
+      structuredContent,
+    };
+  }
+
+  private setupShutdown() {
+    const shutdown = async (signal: string) => {
+      console.error(`🛑 Recebido ${signal}, fechando servidor...`);
+      await this.httpServer?.close();
+      await this.stdioServer?.close();
+      process.exit(0);
+    };
 
+    process.on("SIGINT", () => void shutdown("SIGINT"));
+    process.on("SIGTERM", () => void shutdown("SIGTERM"));
+  }
+
+  async start() {
     console.error("🚀 Iniciando Mística MCP Server...");
     console.error("📚 Design System: Telefónica Mística");
     console.error("🔗 Documentação: https://mistica-web.vercel.app");
-    console.error("⚡ Servidor pronto para receber comandos");
+    console.error(`🎨 Skin padrão: ${getServerDefaultSkin()}`);
+    console.error(`🔌 Transporte: ${this.options.transport}`);
+
+    // Backend indisponível (ex: SQLite sem node:sqlite) impede a inicialização
+    await this.cacheManager.init();
+    console.error(
+      `💾 Cache: ${this.cacheManager.getBackendName()} (${this.cacheManager.getNamespace()})`
+    );
+
+    if (this.catalog) {
+      // Falha já na inicialização se o arquivo estiver ausente ou inválido
+      const snapshot = await this.catalog.load();
+      console.error(
+        `📘 Catálogo congelado: ${this.catalog.getFilePath()} (${snapshot.components.length} componentes, ${snapshot.icons?.length ?? 0} ícones, Mística ${snapshot.misticaVersion}, skins: ${snapshot.skins.join(", ")})`
+      );
+    }
 
-    await this.server.connect(transport);
+    if (this.options.transport === "http") {
+      this.httpServer = new MisticaHttpServer(
+        () => this.createServer(),
+        this.options
+      );
+      await this.httpServer.listen();
+    } else {
+      this.stdioServer = this.createServer();
+      await this.stdioServer.connect(new StdioServerTransport());
+    }
+
+    console.error("⚡ Servidor pronto para receber comandos");
   }
 }
 
-// Inicializar servidor
-const server = new MisticaMCPServer();
-server.start().catch((error) => {
+// Inicializar servidor. Opções inválidas (--cache, --transport, --skin)
+// são lidas no construtor e também caem no erro fatal.
+async function main() {
+  const server = new MisticaMCPServer();
+  await server.start();
+}
+
+main().catch((error) => {
   console.error("💥 Erro fatal ao iniciar servidor:", error);
   process.exit(1);
 });
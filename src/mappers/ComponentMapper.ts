@@ -1,4 +1,6 @@
 import type { MisticaComponent } from '../types/interfaces.js';
+import type { MisticaIcon } from '../types/mistica.js';
+import { IconSearchEngine } from '../search/IconSearchEngine.js';
 import type { UIElements } from '../analyzers/ElementExtractor.js';
 import type { UIPatterns, StructuralAnalysis } from '../analyzers/PatternDetector.js';
 
@@ -15,6 +17,13 @@ export interface ComponentSuggestion {
   score: number;
 }
 
+export interface IconSuggestion {
+  layer: string; // camada do Figma ou termo que originou a sugestão
+  role: 'asset' | 'navigation';
+  icon: MisticaIcon;
+  score: number;
+}
+
 export interface ElementMapping {
   detected: boolean;
   misticaComponents: string[];
@@ -35,6 +44,36 @@ export interface ElementMappings {
 }
 
 export class ComponentMapper {
+  private iconSearch = new IconSearchEngine();
+
+  /**
+   * Resolve as camadas de ícone do Figma para ícones concretos do Mística,
+   * mais o chevron das listas navegáveis
+   */
+  findIconEquivalents(elements: UIElements, icons: MisticaIcon[]): IconSuggestion[] {
+    const suggestions: IconSuggestion[] = [];
+    const hasNavigation = elements.lists.hasNavigation;
+
+    elements.icons.layers.forEach(layer => {
+      const [match] = this.iconSearch.search(icons, layer, { limit: 1 });
+      if (match && !suggestions.some(s => s.icon.name === match.icon.name)) {
+        // Setas em listas navegáveis são o indicador `right`, não o asset
+        const role = hasNavigation && /^(Chevron|Arrow)/.test(match.icon.baseName) ? 'navigation' : 'asset';
+        suggestions.push({ layer, role, icon: match.icon, score: match.score });
+      }
+    });
+
+    if (hasNavigation && !suggestions.some(s => s.role === 'navigation')) {
+      // Peso regular, o mesmo do fallback IconChevronRightRegular do gerador
+      const [chevron] = this.iconSearch.search(icons, 'chevron right', { limit: 1, weight: 'regular' });
+      if (chevron) {
+        suggestions.push({ layer: 'chevron right', role: 'navigation', icon: chevron.icon, score: chevron.score });
+      }
+    }
+
+    return suggestions;
+  }
+
   /**
    * Encontra componentes equivalentes no Mística baseado na análise APRIMORADA
    */
@@ -105,6 +144,9 @@ export class ComponentMapper {
     const patternSuggestions = this.getPatternBasedSuggestions(patterns, allComponents);
     suggestions.push(...patternSuggestions);
 
+    // Componentes depreciados perdem prioridade e indicam a substituição
+    suggestions.push(...this.applyDeprecationPenalty(suggestions, allComponents));
+
     // Remover duplicatas e ordenar por score
     const uniqueSuggestions = suggestions
       .filter((suggestion, index, self) => 
@@ -740,6 +782,38 @@ export class ComponentMapper {
 
   // ===== MÉTODOS AUXILIARES =====
 
+  /**
+   * Penaliza sugestões depreciadas (in place) e retorna as substitutas
+   * indicadas na tag @deprecated, quando existirem no catálogo
+   */
+  private applyDeprecationPenalty(
+    suggestions: ComponentSuggestion[],
+    allComponents: MisticaComponent[]
+  ): ComponentSuggestion[] {
+    const replacements: ComponentSuggestion[] = [];
+
+    suggestions.forEach(suggestion => {
+      const deprecation = suggestion.component.deprecation;
+      if (!deprecation) return;
+
+      const originalScore = suggestion.score;
+      suggestion.score = Math.max(originalScore - 40, 0);
+      suggestion.reason += ` (depreciado${deprecation.replacement ? `, use ${deprecation.replacement}` : ''})`;
+
+      const replacement = deprecation.replacement &&
+        allComponents.find(c => c.name === deprecation.replacement && !c.deprecation);
+      if (replacement) {
+        replacements.push({
+          component: replacement,
+          reason: `Substituto de ${suggestion.component.name} (depreciado)`,
+          score: originalScore
+        });
+      }
+    });
+
+    return replacements;
+  }
+
   /**
    * Busca componentes por padrões específicos (NOVO)
    */
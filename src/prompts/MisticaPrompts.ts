@@ -0,0 +1,282 @@
+import { ErrorCode, McpError } from "@modelcontextprotocol/sdk/types.js";
+import type {
+  GetPromptResult,
+  Prompt,
+  PromptMessage,
+} from "@modelcontextprotocol/sdk/types.js";
+import { MisticaTools } from "../tools/MisticaTools.js";
+import { MisticaResources } from "../resources/MisticaResources.js";
+import { MisticaJsxScanner } from "../analyzers/MisticaJsxScanner.js";
+import type { MisticaSkinName } from "../types/mistica.js";
+import {
+  DEFAULT_SKIN,
+  MISTICA_SKINS,
+  SKIN_NAMES,
+  resolveSkinName,
+} from "../utils/skins.js";
+
+/**
+ * 💬 MisticaPrompts - Prompts MCP para os fluxos mais comuns com o Mística
+ *
+ * Responsabilidade: Montar prompts parametrizados (converter export do
+ * Figma, construir uma tela, revisar código) já com a documentação dos
+ * componentes relevantes e os tokens da skin embutidos como recursos.
+ */
+
+// Componentes base sugeridos para cada tipo de tela
+const SCREEN_COMPONENTS: Record<string, string[]> = {
+  form: ["Form", "TextField", "EmailField", "PasswordField", "Select", "Checkbox", "ButtonPrimary", "Stack"],
+  list: ["RowList", "Row", "BoxedRowList", "BoxedRow", "NavigationBar", "Stack"],
+  detail: ["MainSectionHeaderLayout", "Title1", "Text3", "Divider", "ButtonPrimary", "Box"],
+  feedback: ["SuccessFeedbackScreen", "ErrorFeedbackScreen", "InfoFeedbackScreen", "ButtonPrimary"],
+  dashboard: ["ResponsiveLayout", "Grid", "DataCard", "MediaCard", "Tabs", "Stack"],
+};
+
+// Limite de documentos embutidos para não estourar o contexto do cliente
+const MAX_EMBEDDED_COMPONENTS = 6;
+
+const SKIN_ARGUMENT = {
+  name: "skin",
+  description: `Skin (marca): ${SKIN_NAMES.join(", ")}`,
+  required: false,
+};
+
+export class MisticaPrompts {
+  private misticaTools: MisticaTools;
+  private misticaResources: MisticaResources;
+  private defaultSkin: MisticaSkinName;
+  private scanner = new MisticaJsxScanner();
+
+  constructor(
+    misticaTools: MisticaTools,
+    misticaResources: MisticaResources,
+    defaultSkin: MisticaSkinName = DEFAULT_SKIN
+  ) {
+    this.misticaTools = misticaTools;
+    this.misticaResources = misticaResources;
+    this.defaultSkin = defaultSkin;
+  }
+
+  getAllPrompts(): Prompt[] {
+    return [
+      {
+        name: "mistica_figma_to_code",
+        description:
+          "Converte um export do Figma em código React usando componentes e tokens do Mística",
+        arguments: [
+          {
+            name: "figmaCode",
+            description: "Código exportado do Figma (React, HTML ou CSS)",
+            required: true,
+          },
+          SKIN_ARGUMENT,
+        ],
+      },
+      {
+        name: "mistica_build_screen",
+        description: "Constrói uma tela completa com componentes do Mística",
+        arguments: [
+          {
+            name: "screenType",
+            description: `Tipo de tela: ${Object.keys(SCREEN_COMPONENTS).join(", ")}`,
+            required: true,
+          },
+          {
+            name: "requirements",
+            description: "Descrição dos campos, conteúdos e ações da tela",
+            required: false,
+          },
+          SKIN_ARGUMENT,
+        ],
+      },
+      {
+        name: "mistica_review_code",
+        description:
+          "Revisa um trecho de código (ex: diff de PR) quanto à conformidade com o Mística",
+        arguments: [
+          {
+            name: "code",
+            description: "Código TSX/CSS a ser revisado",
+            required: true,
+          },
+          SKIN_ARGUMENT,
+        ],
+      },
+    ];
+  }
+
+  async getPrompt(
+    name: string,
+    args: Record<string, string> = {}
+  ): Promise<GetPromptResult> {
+    const prompt = this.getAllPrompts().find((p) => p.name === name);
+    if (!prompt) {
+      throw new McpError(ErrorCode.InvalidParams, `Prompt não encontrado: ${name}`);
+    }
+
+    const missing = (prompt.arguments || []).filter(
+      (argument) => argument.required && !args[argument.name]
+    );
+    if (missing.length > 0) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        `Argumentos obrigatórios ausentes: ${missing.map((a) => a.name).join(", ")}`
+      );
+    }
+
+    let skin: MisticaSkinName;
+    try {
+      skin = resolveSkinName(args.skin, this.defaultSkin);
+    } catch (error: any) {
+      throw new McpError(ErrorCode.InvalidParams, error.message);
+    }
+
+    switch (name) {
+      case "mistica_figma_to_code":
+        return this.buildFigmaToCode(args.figmaCode, skin);
+      case "mistica_build_screen":
+        return this.buildScreen(args.screenType, args.requirements, skin);
+      default:
+        return this.buildCodeReview(args.code, skin);
+    }
+  }
+
+  private async buildFigmaToCode(
+    figmaCode: string,
+    skin: MisticaSkinName
+  ): Promise<GetPromptResult> {
+    const mapping = await this.misticaTools.mapFigmaToMistica({
+      figmaCode,
+      includeRefactoring: false,
+      skin,
+    });
+    const suggested: string[] = (mapping.suggestions || []).map(
+      (component: any) => component.name
+    );
+
+    let instructions = `Converta o export do Figma abaixo em um componente React usando o design system Mística (skin ${MISTICA_SKINS[skin].label}).\n\n`;
+    instructions += "Regras:\n";
+    instructions += "- Use apenas componentes importados de '@telefonica/mistica'\n";
+    instructions += "- Substitua cores, espaçamentos e tipografia fixos por tokens (skinVars), Box/Stack/Inline e componentes de texto\n";
+    instructions += "- Não use componentes depreciados\n\n";
+    instructions += "```tsx\n" + figmaCode + "\n```\n\n";
+    if (mapping.message) {
+      instructions += `Análise prévia:\n${mapping.message}\n`;
+    }
+
+    return {
+      description: "Conversão de export do Figma para Mística",
+      messages: [
+        this.textMessage(instructions),
+        ...(await this.componentMessages(suggested, skin)),
+        ...(await this.tokenMessages(skin, ["color", "spacing"])),
+      ],
+    };
+  }
+
+  private async buildScreen(
+    screenType: string,
+    requirements: string | undefined,
+    skin: MisticaSkinName
+  ): Promise<GetPromptResult> {
+    const type = screenType.toLowerCase();
+    const components = SCREEN_COMPONENTS[type];
+    if (!components) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        `Tipo de tela "${screenType}" não suportado. Use um de: ${Object.keys(SCREEN_COMPONENTS).join(", ")}`
+      );
+    }
+
+    let instructions = `Construa uma tela do tipo "${type}" em React usando o design system Mística (skin ${MISTICA_SKINS[skin].label}).\n\n`;
+    if (requirements) {
+      instructions += `Requisitos:\n${requirements}\n\n`;
+    }
+    instructions += `Componentes recomendados: ${components.join(", ")}\n`;
+    instructions += "Envolva a tela no ThemeContextProvider da skin e use apenas tokens do Mística para cores e espaçamentos.\n";
+
+    return {
+      description: `Construção de tela ${type} com Mística`,
+      messages: [
+        this.textMessage(instructions),
+        ...(await this.componentMessages(components, skin)),
+        ...(await this.tokenMessages(skin, ["spacing"])),
+      ],
+    };
+  }
+
+  private async buildCodeReview(
+    code: string,
+    skin: MisticaSkinName
+  ): Promise<GetPromptResult> {
+    const [validation, lint] = await Promise.all([
+      this.misticaTools.validateUsage({ code }),
+      this.misticaTools.lintStyles({ code, skin, minConfidence: 0 }),
+    ]);
+
+    let instructions = `Revise o código abaixo quanto à conformidade com o design system Mística (skin ${MISTICA_SKINS[skin].label}).\n\n`;
+    instructions += "Aponte uso incorreto de componentes, props inválidas ou depreciadas e estilos fixos que deveriam usar tokens. Para cada problema, sugira a correção.\n\n";
+    instructions += "```tsx\n" + code + "\n```\n\n";
+    instructions += `Validação automática:\n${validation.message || validation.error}\n\n`;
+    instructions += `Estilos fixos:\n${lint.message || lint.error}\n`;
+
+    const { imports } = this.scanner.scan(code);
+    const usedComponents = [...new Set(imports.map((i) => i.imported))];
+
+    return {
+      description: "Revisão de conformidade com o Mística",
+      messages: [
+        this.textMessage(instructions),
+        ...(await this.componentMessages(usedComponents, skin)),
+      ],
+    };
+  }
+
+  /**
+   * Embute a documentação dos componentes que existem no catálogo
+   */
+  private async componentMessages(
+    names: string[],
+    skin: MisticaSkinName
+  ): Promise<PromptMessage[]> {
+    const messages: PromptMessage[] = [];
+
+    for (const name of names) {
+      if (messages.length >= MAX_EMBEDDED_COMPONENTS) break;
+      try {
+        const resource = await this.misticaResources.getComponentDocument(name, skin);
+        messages.push({ role: "user", content: { type: "resource", resource } });
+      } catch {
+        // Componente fora do catálogo atual
+      }
+    }
+
+    return messages;
+  }
+
+  private async tokenMessages(
+    skin: MisticaSkinName,
+    categories: string[]
+  ): Promise<PromptMessage[]> {
+    const messages: PromptMessage[] = [];
+
+    for (const category of categories) {
+      try {
+        const { contents } = await this.misticaResources.readResource(
+          `mistica://tokens/${skin}/${category}`
+        );
+        contents.forEach((resource) =>
+          messages.push({ role: "user", content: { type: "resource", resource } })
+        );
+      } catch (error) {
+        console.error(`⚠️ Tokens ${category} indisponíveis para ${skin}:`, error);
+      }
+    }
+
+    return messages;
+  }
+
+  private textMessage(text: string): PromptMessage {
+    return { role: "user", content: { type: "text", text } };
+  }
+}
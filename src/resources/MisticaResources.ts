@@ -0,0 +1,230 @@
+import { ErrorCode, McpError } from "@modelcontextprotocol/sdk/types.js";
+import type {
+  ReadResourceResult,
+  Resource,
+  ResourceTemplate,
+} from "@modelcontextprotocol/sdk/types.js";
+import { MisticaScraper } from "../scraper/MisticaScraper.js";
+import { MisticaTokenExtractor } from "../scraper/MisticaTokenExtractor.js";
+import { UsageExampleGenerator } from "../generators/UsageExampleGenerator.js";
+import type { DesignToken, MisticaSkinName } from "../types/mistica.js";
+import { DEFAULT_SKIN, MISTICA_SKINS, SKIN_NAMES, isSkinName } from "../utils/skins.js";
+
+/**
+ * 📎 MisticaResources - Expõe o catálogo do Mística como recursos MCP
+ *
+ * Responsabilidade: Listar e ler os recursos `mistica://` para que clientes
+ * anexem a documentação de componentes, categorias e tokens como contexto,
+ * usando os mesmos dados das ferramentas (scraper, gerador de exemplos e
+ * extrator de tokens).
+ *
+ * URIs suportadas:
+ * - `mistica://components/{name}`
+ * - `mistica://categories/{category}`
+ * - `mistica://tokens/{skin}/{category}`
+ */
+
+const RESOURCE_SCHEME = "mistica://";
+
+const TOKEN_CATEGORIES: DesignToken["category"][] = [
+  "color",
+  "spacing",
+  "typography",
+  "border",
+];
+
+export class MisticaResources {
+  private misticaScraper: MisticaScraper;
+  private tokenExtractor: MisticaTokenExtractor;
+  private usageGenerator: UsageExampleGenerator;
+  private defaultSkin: MisticaSkinName;
+
+  constructor(
+    misticaScraper: MisticaScraper,
+    tokenExtractor: MisticaTokenExtractor,
+    defaultSkin: MisticaSkinName = DEFAULT_SKIN
+  ) {
+    this.defaultSkin = defaultSkin;
+    this.misticaScraper = misticaScraper;
+    this.tokenExtractor = tokenExtractor;
+    this.usageGenerator = new UsageExampleGenerator();
+  }
+
+  getResourceTemplates(): ResourceTemplate[] {
+    return [
+      {
+        uriTemplate: `${RESOURCE_SCHEME}components/{name}`,
+        name: "Componente Mística",
+        description:
+          "Documentação de um componente: props, import, tema e exemplos de uso",
+        mimeType: "text/markdown",
+      },
+      {
+        uriTemplate: `${RESOURCE_SCHEME}categories/{category}`,
+        name: "Categoria de componentes",
+        description: `Componentes de uma categoria (ex: components, layout, hooks)`,
+        mimeType: "text/markdown",
+      },
+      {
+        uriTemplate: `${RESOURCE_SCHEME}tokens/{skin}/{category}`,
+        name: "Design tokens por skin",
+        description: `Tokens de uma skin (${SKIN_NAMES.join(", ")}) e categoria (${TOKEN_CATEGORIES.join(", ")})`,
+        mimeType: "application/json",
+      },
+    ];
+  }
+
+  async listResources(): Promise<Resource[]> {
+    const components = await this.misticaScraper.getAllComponents();
+    const categories = [...new Set(components.map((c) => c.category))].sort();
+
+    const componentResources: Resource[] = components.map((component) => ({
+      uri: `${RESOURCE_SCHEME}components/${encodeURIComponent(component.name)}`,
+      name: component.name,
+      description: component.description,
+      mimeType: "text/markdown",
+    }));
+
+    const categoryResources: Resource[] = categories.map((category) => ({
+      uri: `${RESOURCE_SCHEME}categories/${encodeURIComponent(category)}`,
+      name: `Categoria ${category}`,
+      mimeType: "text/markdown",
+    }));
+
+    const tokenResources: Resource[] = SKIN_NAMES.flatMap((skin) =>
+      TOKEN_CATEGORIES.map((category) => ({
+        uri: `${RESOURCE_SCHEME}tokens/${skin}/${category}`,
+        name: `Tokens ${category} - ${MISTICA_SKINS[skin].label}`,
+        mimeType: "application/json",
+      }))
+    );
+
+    return [...componentResources, ...categoryResources, ...tokenResources];
+  }
+
+  async readResource(uri: string): Promise<ReadResourceResult> {
+    if (!uri.startsWith(RESOURCE_SCHEME)) {
+      throw new McpError(ErrorCode.InvalidParams, `URI não suportada: ${uri}`);
+    }
+
+    const [kind, ...segments] = this.decodeSegments(uri);
+
+    switch (kind) {
+      case "components":
+        if (segments.length === 1) {
+          return { contents: [await this.getComponentDocument(segments[0])] };
+        }
+        break;
+      case "categories":
+        if (segments.length === 1) return this.readCategory(uri, segments[0]);
+        break;
+      case "tokens":
+        if (segments.length === 2) {
+          return this.readTokens(uri, segments[0], segments[1]);
+        }
+        break;
+    }
+
+    throw new McpError(ErrorCode.InvalidParams, `Recurso não encontrado: ${uri}`);
+  }
+
+  private decodeSegments(uri: string): string[] {
+    try {
+      return uri
+        .slice(RESOURCE_SCHEME.length)
+        .split("/")
+        .map((segment) => decodeURIComponent(segment));
+    } catch {
+      // Escape malformado (ex: "%E0%A4%A") lança URIError
+      throw new McpError(ErrorCode.InvalidParams, `URI malformada: ${uri}`);
+    }
+  }
+
+  /**
+   * Documentação em Markdown de um componente, gerada com os tokens da
+   * skin informada. Também usada pelos prompts para embutir contexto.
+   */
+  async getComponentDocument(
+    name: string,
+    skin: MisticaSkinName = this.defaultSkin
+  ): Promise<ReadResourceResult["contents"][number]> {
+    const components = await this.misticaScraper.getAllComponents();
+    const component = components.find(
+      (c) => c.name.toLowerCase() === name.toLowerCase()
+    );
+    if (!component) {
+      throw new McpError(ErrorCode.InvalidParams, `Componente "${name}" não encontrado`);
+    }
+
+    const tokens = await this.tokenExtractor
+      .getAllTokens(skin)
+      .catch(() => [] as DesignToken[]);
+    const markdown = this.usageGenerator.generate(component, {
+      format: "react",
+      includeAdvanced: true,
+      skin,
+      tokens,
+    });
+
+    return {
+      uri: `${RESOURCE_SCHEME}components/${encodeURIComponent(component.name)}`,
+      mimeType: "text/markdown",
+      text: markdown,
+    };
+  }
+
+  private async readCategory(uri: string, category: string): Promise<ReadResourceResult> {
+    const components = (await this.misticaScraper.getAllComponents()).filter(
+      (c) => c.category === category
+    );
+    if (components.length === 0) {
+      throw new McpError(ErrorCode.InvalidParams, `Categoria "${category}" não encontrada`);
+    }
+
+    let markdown = `# Categoria ${category}\n\n${components.length} componentes\n\n`;
+    components.forEach((component) => {
+      const deprecated = component.deprecation ? " ⚠️ depreciado" : "";
+      markdown += `- [${component.name}](${RESOURCE_SCHEME}components/${encodeURIComponent(
+        component.name
+      )})${deprecated}: ${component.description}\n`;
+    });
+
+    return {
+      contents: [{ uri, mimeType: "text/markdown", text: markdown }],
+    };
+  }
+
+  private async readTokens(
+    uri: string,
+    skin: string,
+    category: string
+  ): Promise<ReadResourceResult> {
+    if (!isSkinName(skin)) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        `Skin "${skin}" não suportada. Use uma de: ${SKIN_NAMES.join(", ")}`
+      );
+    }
+    if (!TOKEN_CATEGORIES.includes(category as DesignToken["category"])) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        `Categoria de token "${category}" não suportada. Use uma de: ${TOKEN_CATEGORIES.join(", ")}`
+      );
+    }
+
+    const tokens = await this.tokenExtractor.getTokensByCategory(
+      category as DesignToken["category"],
+      skin
+    );
+
+    return {
+      contents: [
+        {
+          uri,
+          mimeType: "application/json",
+          text: JSON.stringify({ skin, category, tokens }, null, 2),
+        },
+      ],
+    };
+  }
+}
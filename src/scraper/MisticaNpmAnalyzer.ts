@@ -1,22 +1,103 @@
-import { promises as fs } from "fs";
+import { promises as fs, readFileSync } from "fs";
 import path from "path";
-import type { MisticaComponent, ComponentProp } from "../types/mistica.js";
-import { CacheManager } from "../cache/CacheManager.js";
+import type {
+  MisticaComponent,
+  ComponentProp,
+  DeprecationInfo,
+  MisticaIcon,
+  MisticaIconWeight,
+} from "../types/mistica.js";
+import type { Cache } from "../types/cache.js";
+import { MisticaPropsExtractor } from "./MisticaPropsExtractor.js";
+import { splitIconWords } from "../search/IconSearchEngine.js";
+
+/**
+ * Caminho do pacote @telefonica/mistica instalado no projeto atual
+ */
+export function resolveMisticaPackagePath(): string {
+  return path.resolve(process.cwd(), "node_modules", "@telefonica", "mistica");
+}
+
+/**
+ * Versão do pacote instalado, ou undefined se ele não estiver presente.
+ * Síncrono para poder ser usado na montagem do servidor.
+ */
+export function readInstalledMisticaVersion(
+  packagePath: string = resolveMisticaPackagePath()
+): string | undefined {
+  try {
+    const packageJson = JSON.parse(
+      readFileSync(path.join(packagePath, "package.json"), "utf-8")
+    );
+    return packageJson.version;
+  } catch {
+    return undefined;
+  }
+}
+
+const ICON_EXPORT_PATTERN = /^Icon([A-Z]\w*?)(Regular|Light|Filled)$/;
+
+/**
+ * Sinônimos (inglês e português) adicionados às palavras do nome do ícone,
+ * para que buscas como "delete" ou "lixeira" encontrem IconTrashCanRegular
+ */
+const ICON_SYNONYMS: Record<string, string[]> = {
+  trash: ["delete", "remove", "bin", "lixeira", "excluir"],
+  bin: ["delete", "remove", "trash", "lixeira"],
+  close: ["x", "dismiss", "cancel", "fechar"],
+  cross: ["x", "close", "fechar"],
+  check: ["tick", "ok", "done", "success", "confirmar"],
+  chevron: ["arrow", "caret", "seta"],
+  arrow: ["seta", "direction"],
+  search: ["magnifier", "find", "lupa", "buscar"],
+  magnifying: ["search", "lupa"],
+  user: ["person", "profile", "account", "usuario", "perfil"],
+  person: ["user", "profile", "usuario"],
+  home: ["house", "inicio", "casa"],
+  house: ["home", "inicio", "casa"],
+  settings: ["gear", "config", "configuracoes"],
+  gear: ["settings", "config"],
+  bell: ["notification", "alert", "notificacao"],
+  heart: ["favorite", "like", "favorito"],
+  star: ["favorite", "rating", "favorito"],
+  mail: ["email", "envelope", "message"],
+  envelope: ["email", "mail"],
+  phone: ["call", "telefone"],
+  mobile: ["phone", "smartphone", "celular"],
+  wifi: ["wireless", "internet", "network", "rede"],
+  lock: ["security", "password", "cadeado", "senha"],
+  eye: ["view", "show", "visibility", "ver"],
+  edit: ["pencil", "write", "editar"],
+  pencil: ["edit", "write", "editar"],
+  plus: ["add", "new", "adicionar"],
+  minus: ["remove", "subtract"],
+  info: ["information", "help"],
+  warning: ["alert", "attention", "aviso"],
+  calendar: ["date", "data", "agenda"],
+  clock: ["time", "hour", "relogio"],
+  cart: ["shopping", "basket", "carrinho"],
+  download: ["save", "baixar"],
+  upload: ["send", "enviar"],
+  share: ["compartilhar", "send"],
+  menu: ["hamburger", "list"],
+  location: ["pin", "map", "place", "localizacao"],
+  camera: ["photo", "picture", "foto"],
+  refresh: ["reload", "update", "atualizar"],
+  filter: ["funnel", "filtro"],
+};
 
 export class MisticaNpmAnalyzer {
-  private cache: CacheManager;
+  private cache: Cache;
   private misticaPath: string;
   private distPath: string;
   private packageJsonPath: string;
 
-  constructor(cacheManager: CacheManager) {
+  constructor(
+    cacheManager: Cache,
+    packagePath: string = resolveMisticaPackagePath()
+  ) {
     this.cache = cacheManager;
-    this.misticaPath = path.resolve(
-      process.cwd(),
-      "node_modules",
-      "@telefonica",
-      "mistica"
-    );
+    this.misticaPath = packagePath;
     this.distPath = path.join(this.misticaPath, "dist");
     this.packageJsonPath = path.join(this.misticaPath, "package.json");
   }
@@ -35,24 +116,7 @@ export class MisticaNpmAnalyzer {
     console.log("🔍 Analisando pacote npm @telefonica/mistica...");
 
     try {
-      await this.verifyPackageInstalled();
-
-      const packageInfo = await this.getPackageInfo();
-      console.log(`📋 Pacote Mística v${packageInfo.version} encontrado`);
-
-      const exports = await this.analyzeMainExports();
-      console.log(
-        `📤 ${exports.length} exports encontrados no index principal`
-      );
-
-      const components = await this.buildComponentsFromExports(
-        exports,
-        packageInfo
-      );
-
-      const enrichedComponents = await this.enrichComponentsWithTypeInfo(
-        components
-      );
+      const enrichedComponents = await this.analyzePackage();
 
       await this.cache.set(cacheKey, enrichedComponents, 240);
       console.log(
@@ -67,6 +131,78 @@ export class MisticaNpmAnalyzer {
     }
   }
 
+  /**
+   * Índice de todos os ícones exportados (`IconXxxRegular/Light/Filled`),
+   * com o peso e palavras-chave derivadas do nome
+   */
+  async getIconIndex(): Promise<MisticaIcon[]> {
+    const cacheKey = "npm_icons";
+
+    const cached = await this.cache.get<MisticaIcon[]>(cacheKey);
+    if (cached) {
+      return cached;
+    }
+
+    await this.verifyPackageInstalled();
+    const content = await fs.readFile(
+      path.join(this.distPath, "index.d.ts"),
+      "utf-8"
+    );
+
+    const names = new Set<string>();
+    for (const line of content.split("\n")) {
+      if (!line.trim().startsWith("export")) continue;
+      for (const match of line.matchAll(/\b(Icon\w+)\b/g)) {
+        if (ICON_EXPORT_PATTERN.test(match[1])) {
+          names.add(match[1]);
+        }
+      }
+    }
+
+    const icons = [...names]
+      .sort()
+      .map((name) => this.buildIconEntry(name));
+
+    await this.cache.set(cacheKey, icons, 240);
+    console.error(`🖼️ ${icons.length} ícones indexados do npm`);
+
+    return icons;
+  }
+
+  private buildIconEntry(name: string): MisticaIcon {
+    const [, baseName, weight] = name.match(ICON_EXPORT_PATTERN)!;
+    const words = splitIconWords(baseName);
+    const synonyms = words.flatMap((word) => ICON_SYNONYMS[word] || []);
+
+    return {
+      name,
+      baseName,
+      weight: weight.toLowerCase() as MisticaIconWeight,
+      keywords: [...new Set([...words, ...synonyms])],
+    };
+  }
+
+  /**
+   * Analisa exports e props do pacote sem passar pelo cache. Usado
+   * também para comparar versões extraídas em outros diretórios.
+   */
+  async analyzePackage(): Promise<MisticaComponent[]> {
+    await this.verifyPackageInstalled();
+
+    const packageInfo = await this.getPackageInfo();
+    console.error(`📋 Pacote Mística v${packageInfo.version} encontrado`);
+
+    const exports = await this.analyzeMainExports();
+    console.error(`📤 ${exports.length} exports encontrados no index principal`);
+
+    const components = await this.buildComponentsFromExports(
+      exports,
+      packageInfo
+    );
+
+    return this.enrichComponentsWithTypeInfo(components);
+  }
+
   private async verifyPackageInstalled(): Promise<void> {
     try {
       await fs.access(this.misticaPath);
@@ -74,7 +210,7 @@ export class MisticaNpmAnalyzer {
       await fs.access(this.distPath);
     } catch (error) {
       throw new Error(
-        "Pacote @telefonica/mistica não encontrado. Execute: npm install @telefonica/mistica"
+        `Pacote @telefonica/mistica não encontrado em ${this.misticaPath}. Execute: npm install @telefonica/mistica`
       );
     }
   }
@@ -128,13 +264,16 @@ export class MisticaNpmAnalyzer {
       /export\s*\{\s*([^}]+)\s*\}\s*from\s*['"](\.\/[\w-]+)['"]/
     );
     if (namedExportMatch) {
-      const names = namedExportMatch[1].split(",").map((n) => n.trim());
-      for (const name of names) {
-        if (name) {
+      const specifiers = namedExportMatch[1].split(",").map((n) => n.trim());
+      for (const specifier of specifiers) {
+        // "default as Button" / "Foo as Bar" exportam com o nome após "as"
+        const [original, alias] = specifier.split(/\s+as\s+/);
+        const name = (alias || original).trim();
+        if (name && !original.startsWith("type ")) {
           results.push({
             name: name,
             type: "component",
-            isDefault: false,
+            isDefault: original === "default",
             source: namedExportMatch[2],
             category: this.inferCategory(name),
           });
@@ -263,110 +402,42 @@ export class MisticaNpmAnalyzer {
     return components;
   }
 
+  /**
+   * Resolve as props de todos os componentes com o compilador TypeScript
+   * em uma única passada sobre os `.d.ts` do pacote
+   */
   private async enrichComponentsWithTypeInfo(
     components: MisticaComponent[]
   ): Promise<MisticaComponent[]> {
-    const enriched: MisticaComponent[] = [];
-
-    for (const component of components) {
-      try {
-        const props = await this.extractPropsFromTypeFile(component);
-        const enrichedComponent = {
-          ...component,
-          props: props,
-        };
-        enriched.push(enrichedComponent);
-      } catch (error) {
-        console.warn(`⚠️ Erro ao extrair props para ${component.name}:`, error);
-        enriched.push(component);
-      }
-    }
-
-    return enriched;
-  }
-
-  private async extractPropsFromTypeFile(
-    component: MisticaComponent
-  ): Promise<ComponentProp[]> {
-    if (!component.npmInfo?.source) {
-      return [];
-    }
+    let propsByExport: Map<string, ComponentProp[]>;
+    let deprecations: Map<string, DeprecationInfo>;
 
     try {
-      const fileName =
-        component.npmInfo.source.replace("./", "").replace(/\//g, "-") +
-        ".d.ts";
-      const typePath = path.join(this.distPath, fileName);
-
-      try {
-        await fs.access(typePath);
-      } catch {
-        const kebabName = component.name
-          .replace(/([A-Z])/g, "-$1")
-          .toLowerCase()
-          .substring(1);
-        const altTypePath = path.join(this.distPath, kebabName + ".d.ts");
-        try {
-          await fs.access(altTypePath);
-          return await this.parseTypeDefinitions(altTypePath, component.name);
-        } catch {
-          return [];
-        }
-      }
-
-      return await this.parseTypeDefinitions(typePath, component.name);
-    } catch (error) {
-      console.warn(
-        `Erro ao ler arquivo de tipos para ${component.name}:`,
-        error
+      const extractor = new MisticaPropsExtractor(this.distPath);
+      const exportNames = components.map(
+        (component) => component.npmInfo?.exportName || component.name
       );
-      return [];
-    }
-  }
-
-  private async parseTypeDefinitions(
-    filePath: string,
-    componentName: string
-  ): Promise<ComponentProp[]> {
-    const content = await fs.readFile(filePath, "utf-8");
-    const props: ComponentProp[] = [];
-
-    const interfaceRegex = new RegExp(
-      `interface\\s+${componentName}Props\\s*{([^}]+)}`,
-      "g"
-    );
-    const typeRegex = new RegExp(
-      `type\\s+${componentName}Props\\s*=\\s*{([^}]+)}`,
-      "g"
-    );
-
-    let match = interfaceRegex.exec(content) || typeRegex.exec(content);
-
-    if (match) {
-      const propsBlock = match[1];
-      const propLines = propsBlock.split("\n");
-
-      for (const line of propLines) {
-        const trimmed = line.trim();
-        if (!trimmed || trimmed.startsWith("//") || trimmed.startsWith("/*")) {
-          continue;
-        }
-
-        const propMatch = trimmed.match(/(\w+)(\?)?:\s*([^;]+);?/);
-        if (propMatch) {
-          const [, name, optional, type] = propMatch;
-          props.push({
-            name,
-            type: type.trim(),
-            description: `Propriedade ${name} do componente ${componentName}`,
-            required: !optional,
-            defaultValue: undefined,
-          });
-        }
+      propsByExport = extractor.extractProps(exportNames);
+      deprecations = extractor.extractDeprecations(exportNames);
+      console.error(`🧬 Props resolvidas para ${propsByExport.size} componentes`);
+      if (deprecations.size > 0) {
+        console.error(`⚠️ ${deprecations.size} exports marcados como @deprecated`);
       }
+    } catch (error) {
+      console.warn("⚠️ Erro ao resolver props com o compilador TypeScript:", error);
+      return components;
     }
 
-    return props;
+    return components.map((component) => {
+      const exportName = component.npmInfo?.exportName || component.name;
+      const props = propsByExport.get(exportName);
+      const deprecation = deprecations.get(exportName);
+      return {
+        ...component,
+        ...(props ? { props } : {}),
+        ...(deprecation ? { deprecation } : {}),
+      };
+    });
   }
 
   private generateDescription(componentName: string, category: string): string {
@@ -0,0 +1,351 @@
+import path from "path";
+import { createRequire } from "module";
+import ts from "typescript";
+import type { ComponentProp, DeprecationInfo } from "../types/mistica.js";
+
+/**
+ * 🧬 MisticaPropsExtractor - Resolve as props dos componentes exportados
+ *
+ * Responsabilidade: Usar o compilador TypeScript sobre os `.d.ts` do pacote
+ * para obter o tipo completo de cada prop (intersections, unions
+ * discriminadas, ExclusifyUnion, DataAttributes...), obrigatoriedade,
+ * descrição JSDoc, valor `@default` e marcações `@deprecated`.
+ */
+
+interface PropAccumulator {
+  symbol: ts.Symbol;
+  types: Set<string>;
+  presentIn: number;
+  optional: boolean;
+}
+
+const TYPE_FORMAT_FLAGS =
+  ts.TypeFormatFlags.NoTruncation |
+  ts.TypeFormatFlags.UseAliasDefinedOutsideCurrentScope;
+
+// Props injetadas pelo React que não fazem parte da API do componente
+const REACT_INTERNAL_PROPS = new Set(["key", "ref"]);
+
+/**
+ * Diretório do `@types/react` usado pelos `.d.ts` do pacote: o do projeto
+ * analisado ou, na falta dele, o instalado junto com o servidor
+ */
+function resolveReactTypesDir(distPath: string): string | undefined {
+  const origins = [path.join(distPath, "index.d.ts"), import.meta.url];
+  for (const origin of origins) {
+    try {
+      return path.dirname(
+        createRequire(origin).resolve("@types/react/package.json")
+      );
+    } catch {
+      // tenta a próxima origem
+    }
+  }
+  return undefined;
+}
+
+export class MisticaPropsExtractor {
+  private program: ts.Program;
+  private checker: ts.TypeChecker;
+  private indexFile: ts.SourceFile;
+
+  constructor(distPath: string) {
+    const indexPath = path.join(distPath, "index.d.ts");
+    const reactTypesDir = resolveReactTypesDir(distPath);
+    const options: ts.CompilerOptions = {
+      noEmit: true,
+      skipLibCheck: true,
+      strict: true,
+      jsx: ts.JsxEmit.ReactJSX,
+      target: ts.ScriptTarget.ES2020,
+      module: ts.ModuleKind.ESNext,
+      moduleResolution: ts.ModuleResolutionKind.Node10,
+      paths: reactTypesDir
+        ? { react: [reactTypesDir], "react/*": [`${reactTypesDir}/*`] }
+        : undefined,
+    };
+
+    // Sem os tipos do React, forwardRef/memo viram tipo de erro e as props somem
+    if (!ts.resolveModuleName("react", indexPath, options, ts.sys).resolvedModule) {
+      console.warn(
+        "⚠️ Tipos do React (@types/react) não encontrados: props de componentes forwardRef/memo não serão extraídas"
+      );
+    }
+
+    this.program = ts.createProgram([indexPath], options);
+    this.checker = this.program.getTypeChecker();
+
+    const indexFile = this.program.getSourceFile(indexPath);
+    if (!indexFile) {
+      throw new Error(`Arquivo de tipos não encontrado: ${indexPath}`);
+    }
+    this.indexFile = indexFile;
+  }
+
+  /**
+   * Extrai as props de cada export informado. Exports que não são
+   * componentes (tipos, constantes, hooks) ficam fora do resultado.
+   */
+  extractProps(exportNames: string[]): Map<string, ComponentProp[]> {
+    const result = new Map<string, ComponentProp[]>();
+    const unresolved: string[] = [];
+    const exportsByName = this.getModuleExports();
+
+    for (const exportName of exportNames) {
+      const symbol = exportsByName.get(exportName);
+      if (!symbol || exportName.startsWith("use")) {
+        continue;
+      }
+
+      const propsType = this.getPropsType(symbol);
+      if (propsType === "unresolved") {
+        unresolved.push(exportName);
+        continue;
+      }
+      if (!propsType) {
+        continue;
+      }
+
+      result.set(exportName, this.collectProps(propsType));
+    }
+
+    if (unresolved.length > 0) {
+      console.warn(
+        `⚠️ Props não resolvidas (tipo de erro/any) em ${unresolved.length} componentes: ${unresolved.join(", ")}`
+      );
+    }
+
+    return result;
+  }
+
+  /**
+   * Lê a tag `@deprecated` dos exports informados (componentes e hooks)
+   */
+  extractDeprecations(exportNames: string[]): Map<string, DeprecationInfo> {
+    const result = new Map<string, DeprecationInfo>();
+    const exportsByName = this.getModuleExports();
+
+    for (const exportName of exportNames) {
+      const symbol = exportsByName.get(exportName);
+      const deprecation = symbol && this.getDeprecation(symbol);
+      if (deprecation) {
+        result.set(exportName, deprecation);
+      }
+    }
+
+    return result;
+  }
+
+  private getModuleExports(): Map<string, ts.Symbol> {
+    const exportsByName = new Map<string, ts.Symbol>();
+    const moduleSymbol = this.checker.getSymbolAtLocation(this.indexFile);
+    if (!moduleSymbol) {
+      return exportsByName;
+    }
+
+    for (const exported of this.checker.getExportsOfModule(moduleSymbol)) {
+      exportsByName.set(exported.getName(), this.resolveAlias(exported));
+    }
+
+    return exportsByName;
+  }
+
+  private resolveAlias(symbol: ts.Symbol): ts.Symbol {
+    return symbol.flags & ts.SymbolFlags.Alias
+      ? this.checker.getAliasedSymbol(symbol)
+      : symbol;
+  }
+
+  /**
+   * O tipo das props é o primeiro parâmetro da assinatura de chamada
+   * (function components, forwardRef, memo) ou de construção (classes).
+   * "unresolved" indica um parâmetro de props com tipo de erro ou `any`,
+   * em geral tipos do React ausentes.
+   */
+  private getPropsType(symbol: ts.Symbol): ts.Type | "unresolved" | null {
+    if (!(symbol.flags & ts.SymbolFlags.Value)) {
+      return null;
+    }
+
+    const componentType = this.checker.getTypeOfSymbolAtLocation(
+      symbol,
+      this.indexFile
+    );
+    const signatures = [
+      ...componentType.getCallSignatures(),
+      ...componentType.getConstructSignatures(),
+    ];
+
+    for (const signature of signatures) {
+      const [propsParam] = signature.getParameters();
+      if (!propsParam) {
+        continue;
+      }
+
+      const propsType = this.checker.getTypeOfSymbolAtLocation(
+        propsParam,
+        this.indexFile
+      );
+      if (propsType.flags & ts.TypeFlags.Object || propsType.isUnionOrIntersection()) {
+        return propsType;
+      }
+      if (propsType.flags & ts.TypeFlags.Any) {
+        return "unresolved";
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Une as props de todos os membros de uma union. Uma prop só é
+   * obrigatória quando é obrigatória em todos os membros.
+   */
+  private collectProps(propsType: ts.Type): ComponentProp[] {
+    const members = propsType.isUnion() ? propsType.types : [propsType];
+    const accumulated = new Map<string, PropAccumulator>();
+
+    for (const member of members) {
+      for (const property of this.checker.getPropertiesOfType(member)) {
+        const name = property.getName();
+        if (REACT_INTERNAL_PROPS.has(name) || this.isReactDomProp(property)) {
+          continue;
+        }
+
+        const entry = accumulated.get(name) || {
+          symbol: property,
+          types: new Set<string>(),
+          presentIn: 0,
+          optional: false,
+        };
+
+        entry.presentIn++;
+        if (property.flags & ts.SymbolFlags.Optional) {
+          entry.optional = true;
+        }
+
+        const declaredType = this.checker.getTypeOfSymbolAtLocation(
+          property,
+          this.indexFile
+        );
+        const propertyType = this.checker.getNonNullableType(declaredType);
+        // Membros do ExclusifyUnion declaram as props excluídas como `?: undefined`
+        if (!(propertyType.flags & ts.TypeFlags.Never)) {
+          entry.types.add(this.formatType(propertyType, declaredType));
+        }
+        if (this.hasDocumentation(property) && !this.hasDocumentation(entry.symbol)) {
+          entry.symbol = property;
+        }
+
+        accumulated.set(name, entry);
+      }
+    }
+
+    return Array.from(accumulated.entries()).map(([name, entry]) => ({
+      name,
+      type: Array.from(entry.types).join(" | ") || "undefined",
+      required: !entry.optional && entry.presentIn === members.length,
+      defaultValue: this.getJsDocTag(entry.symbol, "default"),
+      description: ts
+        .displayPartsToString(entry.symbol.getDocumentationComment(this.checker))
+        .trim(),
+      deprecation: this.getDeprecation(entry.symbol),
+    }));
+  }
+
+  /**
+   * Expande aliases de unions de literais (ex: `NumericSpace`) para que os
+   * valores aceitos apareçam no tipo. Aliases de unions mistas como
+   * `ReactNode` são mantidos pelo nome. Como `getNonNullableType` descarta
+   * o alias, ele é lido do tipo declarado da prop.
+   */
+  private formatType(type: ts.Type, declaredType: ts.Type = type): string {
+    if (!type.isUnion()) {
+      return this.checker.typeToString(type, undefined, TYPE_FORMAT_FLAGS);
+    }
+
+    const aliased = type.aliasSymbol ? type : declaredType.aliasSymbol ? declaredType : undefined;
+    const literalOnly = type.types.every((member) => this.isLiteralType(member));
+    if (aliased && !literalOnly) {
+      return this.checker.typeToString(aliased, undefined, TYPE_FORMAT_FLAGS);
+    }
+
+    const parts: string[] = [];
+    const hasTrue = type.types.some((member) => this.isBooleanLiteral(member, "true"));
+    const hasFalse = type.types.some((member) => this.isBooleanLiteral(member, "false"));
+
+    for (const member of type.types) {
+      if (hasTrue && hasFalse && member.flags & ts.TypeFlags.BooleanLiteral) {
+        if (!parts.includes("boolean")) parts.push("boolean");
+        continue;
+      }
+      parts.push(this.checker.typeToString(member, undefined, TYPE_FORMAT_FLAGS));
+    }
+
+    return parts.join(" | ");
+  }
+
+  private isLiteralType(type: ts.Type): boolean {
+    return !!(
+      type.flags &
+      (ts.TypeFlags.StringLiteral |
+        ts.TypeFlags.NumberLiteral |
+        ts.TypeFlags.BooleanLiteral)
+    );
+  }
+
+  private isBooleanLiteral(type: ts.Type, value: "true" | "false"): boolean {
+    return (
+      !!(type.flags & ts.TypeFlags.BooleanLiteral) &&
+      this.checker.typeToString(type) === value
+    );
+  }
+
+  private isReactDomProp(property: ts.Symbol): boolean {
+    const declarations = property.getDeclarations() || [];
+    return (
+      property.getName() !== "children" &&
+      declarations.length > 0 &&
+      declarations.every((declaration) =>
+        /[\\/]@types[\\/]react[\\/]/.test(declaration.getSourceFile().fileName)
+      )
+    );
+  }
+
+  private hasDocumentation(symbol: ts.Symbol): boolean {
+    return symbol.getDocumentationComment(this.checker).length > 0;
+  }
+
+  /**
+   * Converte a tag `@deprecated` em DeprecationInfo, extraindo a
+   * substituta de textos como "use ButtonLink instead" ou "use `small`"
+   */
+  private getDeprecation(symbol: ts.Symbol): DeprecationInfo | undefined {
+    const tag = symbol
+      .getJsDocTags(this.checker)
+      .find((candidate) => candidate.name === "deprecated");
+    if (!tag) {
+      return undefined;
+    }
+
+    const message = ts.displayPartsToString(tag.text).trim();
+    const replacementMatch = message.match(
+      /\b(?:use|usar|utilize|replaced by|substitu[ií]do por)\s+(?:the\s+)?(?:\{@link\s+)?[`'"<]?([A-Za-z_][\w.]*)/i
+    );
+
+    return {
+      message: message || "Depreciado",
+      replacement: replacementMatch?.[1],
+    };
+  }
+
+  private getJsDocTag(symbol: ts.Symbol, tagName: string): string | undefined {
+    const tag = symbol
+      .getJsDocTags(this.checker)
+      .find((candidate) => candidate.name === tagName);
+    if (!tag) {
+      return undefined;
+    }
+    return ts.displayPartsToString(tag.text).trim() || undefined;
+  }
+}
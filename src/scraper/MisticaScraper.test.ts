@@ -0,0 +1,73 @@
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { MisticaScraper } from "./MisticaScraper.js";
+import { CacheManager, createCacheBackend } from "../cache/CacheManager.js";
+import type { MisticaComponent } from "../types/mistica.js";
+
+function component(overrides: Partial<MisticaComponent>): MisticaComponent {
+  return {
+    id: "button-primary",
+    name: "ButtonPrimary",
+    category: "components",
+    description: "Botão principal",
+    storyUrl: "https://mistica-web.vercel.app/?path=/docs/buttons",
+    lastUpdated: new Date("2024-05-01T10:00:00.000Z"),
+    ...overrides,
+  };
+}
+
+function storybookButton(): MisticaComponent {
+  return component({
+    examples: [{ title: "Default", code: "<ButtonPrimary>Ok</ButtonPrimary>" }],
+    stories: [
+      {
+        id: "buttons--primary",
+        name: "Primary",
+        title: "Components/Buttons",
+        url: "https://mistica-web.vercel.app/?path=/story/buttons--primary",
+      },
+    ],
+    variations: [{ name: "Small", description: "Botão pequeno", props: { small: true } }],
+    storyUrl: "https://mistica-web.vercel.app/?path=/story/buttons--primary",
+  });
+}
+
+describe("MisticaScraper.mergeComponentData", () => {
+  const scraper = new MisticaScraper(new CacheManager(createCacheBackend("memory")));
+
+  test("não altera os componentes do npm recebidos", () => {
+    const npmButton = component({ examples: [] });
+    const [merged] = scraper["mergeComponentData"]([npmButton], [storybookButton()]);
+
+    assert.notEqual(merged, npmButton);
+    assert.deepEqual(npmButton.examples, []);
+    assert.equal(npmButton.stories, undefined);
+    assert.equal(merged.examples?.length, 1);
+  });
+
+  test("mesclar de novo com o resultado anterior não duplica dados", () => {
+    const npmComponents = [component({})];
+    const storybook = [storybookButton(), storybookButton()];
+
+    const first = scraper["mergeComponentData"](npmComponents, storybook);
+    const second = scraper["mergeComponentData"](first, storybook);
+
+    for (const [button] of [first, second]) {
+      assert.equal(button.examples?.length, 1);
+      assert.equal(button.stories?.length, 1);
+      assert.equal(button.variations?.length, 1);
+    }
+  });
+
+  test("agrupa componentes só do Storybook em um único registro", () => {
+    const merged = scraper["mergeComponentData"](
+      [],
+      [component({ name: "Tag" }), component({ name: "Tag" })]
+    );
+
+    assert.deepEqual(
+      merged.map((comp) => comp.name),
+      ["Tag"]
+    );
+  });
+});
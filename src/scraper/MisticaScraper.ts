@@ -1,19 +1,84 @@
 import axios from "axios";
 import * as cheerio from "cheerio";
-import type { MisticaComponent, ScraperConfig } from "../types/mistica.js";
-import { CacheManager } from "../cache/CacheManager.js";
+import path from "path";
+import type {
+  ComponentExample,
+  MisticaComponent,
+  ScraperConfig,
+} from "../types/mistica.js";
+import type { Cache } from "../types/cache.js";
 import { MisticaNpmAnalyzer } from "./MisticaNpmAnalyzer.js";
+import { StorybookIndexParser } from "./StorybookIndexParser.js";
+import type { StorybookStoryEntry } from "./StorybookIndexParser.js";
+import { StorybookSnapshotStore } from "./StorybookSnapshotStore.js";
+import { MisticaCatalog } from "../catalog/MisticaCatalog.js";
+
+const COMBINED_COMPONENTS_CACHE_KEY = "all_components_combined";
+const COMPONENT_SOURCES_CACHE_KEY = "all_components_sources";
+// Se a atualização em segundo plano só obtiver o fallback, o catálogo
+// anterior é mantido e uma nova tentativa ocorre após este intervalo
+const STALE_RETRY_MINUTES = 15;
+
+export type CatalogFreshness = "fresh" | "stale" | "refreshing";
+
+// Origem dos dados do catálogo combinado
+export type CatalogSource = "npm" | "storybook" | "fallback" | "catalog";
+
+export interface CatalogStatus {
+  freshness: CatalogFreshness;
+  sources: CatalogSource[];
+  updatedAt?: Date;
+  expiresAt?: Date;
+}
+
+/**
+ * Concatena sem repetir itens já presentes (mesma chave)
+ */
+function appendUnique<T>(
+  current: T[] | undefined,
+  additions: T[] | undefined,
+  keyOf: (item: T) => string
+): T[] {
+  const seen = new Set((current || []).map(keyOf));
+  const result = [...(current || [])];
+  for (const item of additions || []) {
+    const key = keyOf(item);
+    if (!seen.has(key)) {
+      seen.add(key);
+      result.push(item);
+    }
+  }
+  return result;
+}
 
 export class MisticaScraper {
   private config: ScraperConfig;
-  private cache: CacheManager;
+  private cache: Cache;
   private npmAnalyzer: MisticaNpmAnalyzer;
+  private indexParser: StorybookIndexParser;
+  private snapshotStore: StorybookSnapshotStore;
+  private storybookDir?: string;
+  private catalog?: MisticaCatalog;
+  private refreshing?: Promise<MisticaComponent[]>;
   private baseUrl = "https://mistica-web.vercel.app";
-  private storiesApiUrl = "https://mistica-web.vercel.app/stories.json";
-
-  constructor(cacheManager: CacheManager) {
+  // Storybook 7+ publica index.json; versões anteriores, stories.json
+  private storybookIndexUrls = [
+    "https://mistica-web.vercel.app/index.json",
+    "https://mistica-web.vercel.app/stories.json",
+  ];
+
+  /**
+   * Com um catálogo congelado, os componentes vêm só do arquivo e npm,
+   * Storybook e cache não são consultados
+   */
+  constructor(cacheManager: Cache, catalog?: MisticaCatalog) {
     this.cache = cacheManager;
+    this.catalog = catalog;
     this.npmAnalyzer = new MisticaNpmAnalyzer(cacheManager);
+    this.indexParser = new StorybookIndexParser();
+    this.snapshotStore = new StorybookSnapshotStore();
+    const localDir = process.env.MISTICA_STORYBOOK_DIR;
+    this.storybookDir = localDir ? path.resolve(localDir) : undefined;
     this.config = {
       baseUrl: this.baseUrl,
       cacheTimeout: 240,
@@ -22,34 +87,128 @@ export class MisticaScraper {
     };
   }
 
+  /**
+   * Catálogo combinado. Vencido o TTL, o último catálogo conhecido é
+   * devolvido na hora e a atualização segue em segundo plano
+   * (stale-while-revalidate); só a primeira carga bloqueia.
+   */
   async getAllComponents(): Promise<MisticaComponent[]> {
-    const cacheKey = "all_components_combined";
+    if (this.catalog) {
+      return this.catalog.getComponents();
+    }
+
+    const cached = await this.cache.getEntry<MisticaComponent[]>(
+      COMBINED_COMPONENTS_CACHE_KEY
+    );
+
+    if (cached && !cached.stale) {
+      console.error(
+        `📦 Cache hit: ${cached.data.length} componentes combinados carregados`
+      );
+      return cached.data;
+    }
 
-    const cached = await this.cache.get<MisticaComponent[]>(cacheKey);
     if (cached) {
       console.log(
-        `📦 Cache hit: ${cached.length} componentes combinados carregados`
+        `⏳ Catálogo expirado: servindo ${cached.data.length} componentes e atualizando em segundo plano`
+      );
+      this.refresh(cached.data).catch((error) =>
+        console.error("❌ Erro na atualização em segundo plano:", error)
       );
-      return cached;
+      return cached.data;
     }
 
+    return this.refresh();
+  }
+
+  /**
+   * Redescobre os componentes. Chamadas concorrentes compartilham a mesma
+   * atualização em andamento (single-flight).
+   */
+  refresh(previous?: MisticaComponent[]): Promise<MisticaComponent[]> {
+    this.refreshing ||= this.discoverComponents(previous).finally(() => {
+      this.refreshing = undefined;
+    });
+    return this.refreshing;
+  }
+
+  /**
+   * Redescobre na hora, ignorando o TTL; o catálogo atual é mantido se as
+   * fontes estiverem indisponíveis
+   */
+  async forceRefresh(): Promise<MisticaComponent[]> {
+    if (this.catalog) {
+      return this.catalog.getComponents();
+    }
+
+    const cached = await this.cache.getEntry<MisticaComponent[]>(
+      COMBINED_COMPONENTS_CACHE_KEY
+    );
+    return this.refresh(cached?.data);
+  }
+
+  /**
+   * Componentes já conhecidos (catálogo ou cache, mesmo vencido), sem
+   * disparar descoberta
+   */
+  async getCachedComponents(): Promise<MisticaComponent[]> {
+    if (this.catalog) {
+      return this.catalog.getComponents();
+    }
+
+    const cached = await this.cache.getEntry<MisticaComponent[]>(
+      COMBINED_COMPONENTS_CACHE_KEY
+    );
+    return cached?.data || [];
+  }
+
+  async getCatalogStatus(): Promise<CatalogStatus> {
+    if (this.catalog) {
+      return { freshness: "fresh", sources: ["catalog"] };
+    }
+
+    const cached = await this.cache.getEntry<MisticaComponent[]>(
+      COMBINED_COMPONENTS_CACHE_KEY
+    );
+    const sources = await this.cache.getEntry<CatalogSource[]>(
+      COMPONENT_SOURCES_CACHE_KEY
+    );
+    let freshness: CatalogFreshness = cached && !cached.stale ? "fresh" : "stale";
+    if (this.refreshing) {
+      freshness = "refreshing";
+    }
+
+    return {
+      freshness,
+      sources: cached ? sources?.data || [] : [],
+      updatedAt: cached?.timestamp,
+      expiresAt: cached?.expiry,
+    };
+  }
+
+  private async discoverComponents(
+    previous?: MisticaComponent[]
+  ): Promise<MisticaComponent[]> {
     console.log("🔍 Descobrindo componentes do Mística (npm + storybook)...");
 
     try {
       let components: MisticaComponent[] = [];
+      const sources: CatalogSource[] = [];
 
       try {
         console.log("📦 Tentando extrair componentes do pacote npm...");
         const npmComponents = await this.npmAnalyzer.getAllComponents();
         console.log(`✅ ${npmComponents.length} componentes extraídos do npm`);
         components = npmComponents;
+        if (npmComponents.length > 0) sources.push("npm");
       } catch (npmError) {
         console.warn("⚠️ Falha no analisador npm:", npmError);
       }
 
       try {
         console.log("📡 Complementando com dados do Storybook...");
-        const storybookComponents = await this.scrapeFromStoriesApi();
+        const storybookComponents = await this.scrapeFromStorybookIndex();
+        if (storybookComponents.length > 0) sources.push("storybook");
 
         components = this.mergeComponentData(components, storybookComponents);
         console.log(
@@ -59,17 +218,22 @@ export class MisticaScraper {
         console.warn("⚠️ Falha na API Storybook:", storybookError);
       }
 
+      if (components.length === 0 && previous) {
+        console.warn(
+          `⚠️ Fontes indisponíveis: mantendo o catálogo anterior (${previous.length} componentes)`
+        );
+        await this.keepPreviousCatalog(previous);
+        return previous;
+      }
+
       if (components.length === 0) {
         console.log("🔄 Usando fallback para componentes conhecidos...");
         components = await this.getExpandedKnownComponents();
+        sources.push("fallback");
       }
 
       const uniqueComponents = this.removeDuplicateComponents(components);
-      await this.cache.set(
-        cacheKey,
-        uniqueComponents,
-        this.config.cacheTimeout
-      );
+      await this.saveCatalog(uniqueComponents, sources, this.config.cacheTimeout);
 
       console.log(
         `✅ ${uniqueComponents.length} componentes únicos descobertos`
@@ -80,77 +244,158 @@ export class MisticaScraper {
     } catch (error) {
       console.error("❌ Erro ao descobrir componentes:", error);
 
+      if (previous) {
+        await this.keepPreviousCatalog(previous);
+        return previous;
+      }
+
       const fallbackComponents = await this.getExpandedKnownComponents();
-      await this.cache.set(
-        cacheKey,
+      await this.saveCatalog(
         fallbackComponents,
+        ["fallback"],
         this.config.cacheTimeout
       );
       return fallbackComponents;
     }
   }
 
+  private async saveCatalog(
+    components: MisticaComponent[],
+    sources: CatalogSource[],
+    ttlMinutes: number
+  ): Promise<void> {
+    await this.cache.set(COMBINED_COMPONENTS_CACHE_KEY, components, ttlMinutes);
+    await this.cache.set(COMPONENT_SOURCES_CACHE_KEY, sources, ttlMinutes);
+  }
+
+  /**
+   * Regrava o catálogo anterior, com as fontes que o produziram, para uma
+   * nova tentativa em STALE_RETRY_MINUTES
+   */
+  private async keepPreviousCatalog(previous: MisticaComponent[]): Promise<void> {
+    const sources = await this.cache.getEntry<CatalogSource[]>(
+      COMPONENT_SOURCES_CACHE_KEY
+    );
+    await this.saveCatalog(previous, sources?.data || [], STALE_RETRY_MINUTES);
+  }
+
+  /**
+   * Combina npm e Storybook em objetos novos: os componentes de entrada são
+   * os mesmos guardados em cache (`npm_components`) e não podem ser
+   * alterados, senão cada redescoberta acumularia as stories de novo.
+   */
   private mergeComponentData(
     npmComponents: MisticaComponent[],
     storybookComponents: MisticaComponent[]
   ): MisticaComponent[] {
     const merged: MisticaComponent[] = [...npmComponents];
 
-    const npmMap = new Map<string, MisticaComponent>();
-    npmComponents.forEach((comp) => npmMap.set(comp.name.toLowerCase(), comp));
+    const indexByName = new Map<string, number>();
+    npmComponents.forEach((comp, index) =>
+      indexByName.set(comp.name.toLowerCase(), index)
+    );
 
     for (const storybookComp of storybookComponents) {
-      const npmComp = npmMap.get(storybookComp.name.toLowerCase());
+      const name = storybookComp.name.toLowerCase();
+      const index = indexByName.get(name);
 
-      if (npmComp) {
-        npmComp.examples = storybookComp.examples || [];
-        if (storybookComp.storyUrl && !npmComp.storyUrl.includes("default")) {
-          npmComp.storyUrl = storybookComp.storyUrl;
-        }
-      } else {
+      if (index === undefined) {
+        // Várias stories do mesmo componente viram um único registro
+        indexByName.set(name, merged.length);
         merged.push(storybookComp);
+        continue;
       }
+
+      const current = merged[index];
+      merged[index] = {
+        ...current,
+        examples: appendUnique(
+          current.examples,
+          storybookComp.examples,
+          (example) => `${example.title}\n${example.code}`
+        ),
+        stories: appendUnique(
+          current.stories,
+          storybookComp.stories,
+          (story) => story.id
+        ),
+        variations: appendUnique(
+          current.variations,
+          storybookComp.variations,
+          (variation) => variation.name
+        ),
+        storyUrl:
+          storybookComp.storyUrl && !current.storyUrl.includes("default")
+            ? storybookComp.storyUrl
+            : current.storyUrl,
+      };
     }
 
     return merged;
   }
 
-  private async scrapeFromStoriesApi(): Promise<MisticaComponent[]> {
+  private async scrapeFromStorybookIndex(): Promise<MisticaComponent[]> {
     try {
-      console.log("📡 Tentando API stories.json...");
-      const response = await this.makeRequest(this.storiesApiUrl);
-
-      const stories = response.data?.stories || {};
-      const storyIds = Object.keys(stories);
+      const entries = await this.loadStorybookEntries();
 
-      if (storyIds.length === 0) {
-        console.log("⚠️ Nenhuma story encontrada na API");
+      if (entries.length === 0) {
+        console.error("⚠️ Nenhuma story encontrada no índice do Storybook");
         return [];
       }
 
-      console.log(`📖 Processando ${storyIds.length} stories do Storybook...`);
+      console.error(`📖 Processando ${entries.length} stories do Storybook...`);
 
       const components: MisticaComponent[] = [];
 
-      for (const storyId of storyIds) {
-        const story = stories[storyId];
-
-        if (this.isValidComponentStory(storyId, story)) {
-          const component = await this.parseStoryToComponent(storyId, story);
+      for (const entry of entries) {
+        if (this.isValidComponentStory(entry.id, entry)) {
+          const component = await this.parseStoryToComponent(entry);
           if (component) {
             components.push(component);
           }
         }
       }
 
-      console.log(`✅ ${components.length} componentes extraídos da API`);
+      console.error(`✅ ${components.length} componentes extraídos do Storybook`);
       return components;
     } catch (error) {
-      console.error("❌ Erro na API stories.json:", error);
+      console.error("❌ Erro ao ler índice do Storybook:", error);
       return [];
     }
   }
 
+  /**
+   * Ordem das fontes: build local (MISTICA_STORYBOOK_DIR), snapshot
+   * importado com `npm run import:storybook` e, por último, index.json e
+   * stories.json do Storybook publicado
+   */
+  private async loadStorybookEntries(): Promise<StorybookStoryEntry[]> {
+    if (this.storybookDir) {
+      console.error(`📂 Lendo build local do Storybook: ${this.storybookDir}`);
+      return this.indexParser.readBuildDirectory(this.storybookDir);
+    }
+
+    const snapshot = await this.snapshotStore.load();
+    if (snapshot) {
+      console.error(
+        `💾 Usando snapshot do Storybook de ${snapshot.createdAt} (${snapshot.entries.length} stories)`
+      );
+      return snapshot.entries;
+    }
+
+    let lastError: unknown;
+    for (const url of this.storybookIndexUrls) {
+      try {
+        console.error(`📡 Tentando ${url}...`);
+        const response = await this.makeRequest(url);
+        return this.indexParser.parse(response.data);
+      } catch (error) {
+        lastError = error;
+      }
+    }
+    throw lastError;
+  }
+
   private isValidComponentStory(storyId: string, story: any): boolean {
     const title = story.title || "";
     const name = story.name || "";
@@ -207,12 +452,11 @@ export class MisticaScraper {
   }
 
   private async parseStoryToComponent(
-    storyId: string,
-    story: any
+    entry: StorybookStoryEntry
   ): Promise<MisticaComponent | null> {
+    const storyId = entry.id;
     try {
-      const title = story.title || "";
-      const name = story.name || "";
+      const { title, name } = entry;
 
       const titleParts = title.split("/");
       let category =
@@ -230,10 +474,29 @@ export class MisticaScraper {
         category: category,
         description: this.generateDescription(componentName, category),
         storyUrl: `${this.baseUrl}/?path=/story/${storyId}`,
+        stories: [
+          {
+            id: storyId,
+            name,
+            title,
+            url: `${this.baseUrl}/?path=/story/${storyId}`,
+            args: entry.args,
+            argTypes: entry.argTypes,
+            source: entry.source,
+          },
+        ],
         props: [],
-        examples: [],
+        examples: this.buildStoryExamples(componentName, entry),
         usage: "",
-        variations: [],
+        variations: entry.args
+          ? [
+              {
+                name,
+                description: `Args da story ${title} - ${name}`,
+                props: entry.args,
+              },
+            ]
+          : [],
         designTokens: [],
         lastUpdated: new Date(),
         figmaId: undefined,
@@ -246,6 +509,79 @@ export class MisticaScraper {
     }
   }
 
+  /**
+   * Prefere o código fonte da story quando ele contém JSX; fontes no
+   * formato CSF3 (só um objeto `args`) caem para o JSX montado dos args
+   */
+  private buildStoryExamples(
+    componentName: string,
+    entry: StorybookStoryEntry
+  ): ComponentExample[] {
+    const description = `Story "${entry.name}" do Storybook`;
+
+    if (entry.source && /<[A-Z]/.test(entry.source)) {
+      // Stories que repassam `{...args}` mostram os args usados
+      const code =
+        entry.args && entry.source.includes("{...args}")
+          ? `// args: ${JSON.stringify(entry.args)}\n${entry.source}`
+          : entry.source;
+      return [
+        {
+          title: entry.name,
+          code,
+          description,
+          variant: entry.name,
+          origin: "story-source",
+        },
+      ];
+    }
+
+    if (entry.args) {
+      return [
+        {
+          title: entry.name,
+          code: this.generateExampleFromArgs(componentName, entry.args),
+          description,
+          variant: entry.name,
+          origin: "story-args",
+        },
+      ];
+    }
+
+    return [];
+  }
+
+  /**
+   * Monta o JSX da story a partir dos args (children vira conteúdo;
+   * funções e valores nulos são omitidos)
+   */
+  private generateExampleFromArgs(
+    componentName: string,
+    args: Record<string, any>
+  ): string {
+    const tag = componentName.replace(/[^A-Za-z0-9_$.]/g, "");
+    const attributes: string[] = [];
+
+    for (const [key, value] of Object.entries(args)) {
+      if (key === "children" || value === null || value === undefined) continue;
+      if (typeof value === "function") continue;
+      if (value === true) {
+        attributes.push(key);
+      } else if (typeof value === "string") {
+        attributes.push(`${key}=${JSON.stringify(value)}`);
+      } else {
+        attributes.push(`${key}={${JSON.stringify(value)}}`);
+      }
+    }
+
+    const open = [tag, ...attributes].join(" ");
+    const children = args.children;
+    if (typeof children === "string" || typeof children === "number") {
+      return `<${open}>${children}</${tag}>`;
+    }
+    return `<${open} />`;
+  }
+
   private async getExpandedKnownComponents(): Promise<MisticaComponent[]> {
     console.log("📋 Carregando componentes conhecidos...");
 
@@ -682,6 +1018,15 @@ export class MisticaScraper {
     return new Promise((resolve) => setTimeout(resolve, ms));
   }
 
+  /**
+   * Descarta o catálogo combinado para que a próxima leitura use as
+   * fontes atuais (ex: depois de importar um snapshot)
+   */
+  async invalidateCache(): Promise<void> {
+    await this.cache.delete(COMBINED_COMPONENTS_CACHE_KEY);
+    await this.cache.delete(COMPONENT_SOURCES_CACHE_KEY);
+  }
+
   async searchComponents(query: string): Promise<MisticaComponent[]> {
     const allComponents = await this.getAllComponents();
     const lowercaseQuery = query.toLowerCase();
@@ -0,0 +1,213 @@
+import { promises as fs } from "fs";
+import path from "path";
+import { createRequire } from "module";
+import { pathToFileURL } from "url";
+import type {
+  ColorScheme,
+  DesignToken,
+  MisticaSkinName,
+} from "../types/mistica.js";
+import type { Cache } from "../types/cache.js";
+import { resolveMisticaPackagePath } from "./MisticaNpmAnalyzer.js";
+import { DEFAULT_SKIN, MISTICA_SKINS } from "../utils/skins.js";
+import { MisticaCatalog } from "../catalog/MisticaCatalog.js";
+
+/**
+ * Escala de espaçamento aceita por Stack, Inline e Box quando a tipagem
+ * do pacote não puder ser lida
+ */
+const DEFAULT_SPACING_SCALE = [
+  0, 2, 4, 8, 12, 16, 20, 24, 32, 40, 48, 56, 64, 72, 80,
+];
+
+export class MisticaTokenExtractor {
+  private cache: Cache;
+  private misticaPath: string;
+  private require = createRequire(import.meta.url);
+  private catalog?: MisticaCatalog;
+
+  constructor(cacheManager: Cache, catalog?: MisticaCatalog) {
+    this.cache = cacheManager;
+    this.catalog = catalog;
+    this.misticaPath = resolveMisticaPackagePath();
+  }
+
+  async getAllTokens(
+    skinName: MisticaSkinName = DEFAULT_SKIN
+  ): Promise<DesignToken[]> {
+    if (this.catalog) {
+      return this.catalog.getTokens(skinName);
+    }
+
+    const cacheKey = `design_tokens_${skinName}`;
+
+    const cached = await this.cache.get<DesignToken[]>(cacheKey);
+    if (cached) {
+      console.error(`📦 Cache hit: ${cached.length} design tokens carregados`);
+      return cached;
+    }
+
+    console.error(`🎨 Extraindo design tokens da skin ${skinName}...`);
+
+    const definition = MISTICA_SKINS[skinName];
+    const skin = await this.loadSkin(definition.file, definition.getter);
+    const spacingScale = await this.readSpacingScale();
+
+    const tokens: DesignToken[] = [
+      ...this.extractColorTokens(skin.colors || {}, skin.darkModeColors || {}),
+      ...this.extractBorderTokens(skin.borderRadii || {}),
+      ...this.extractSpacingTokens(spacingScale),
+      ...this.extractTypographyTokens(skin.textPresets || {}),
+    ].map((token) => ({ ...token, skin: skinName }));
+
+    await this.cache.set(cacheKey, tokens, 240);
+    console.error(`✅ ${tokens.length} design tokens extraídos (${skin.name})`);
+
+    return tokens;
+  }
+
+  async getTokensByCategory(
+    category: DesignToken["category"],
+    skinName: MisticaSkinName = DEFAULT_SKIN
+  ): Promise<DesignToken[]> {
+    const tokens = await this.getAllTokens(skinName);
+    return tokens.filter((token) => token.category === category);
+  }
+
+  /**
+   * Resolve o valor do token para o modo de cor informado
+   */
+  resolveTokenValue(token: DesignToken, colorScheme: ColorScheme): string {
+    return token.modes?.[colorScheme] ?? token.value;
+  }
+
+  /**
+   * Lista os tokens cujo valor no modo escuro difere do modo claro
+   */
+  async getColorSchemeDiff(
+    skinName: MisticaSkinName = DEFAULT_SKIN
+  ): Promise<DesignToken[]> {
+    const tokens = await this.getAllTokens(skinName);
+    return tokens.filter(
+      (token) =>
+        token.modes !== undefined &&
+        token.modes.dark.toLowerCase() !== token.modes.light.toLowerCase()
+    );
+  }
+
+  /**
+   * Carrega a definição de skin publicada no pacote. Prioriza o build
+   * CommonJS (dist/) e recorre ao build ES (dist-es/) quando necessário.
+   */
+  private async loadSkin(file: string, getter: string): Promise<any> {
+    const cjsPath = path.join(this.misticaPath, "dist", "skins", `${file}.js`);
+    const esPath = path.join(this.misticaPath, "dist-es", "skins", `${file}.js`);
+
+    let skinModule: any;
+    try {
+      await fs.access(cjsPath);
+      skinModule = this.require(cjsPath);
+    } catch {
+      try {
+        await fs.access(esPath);
+        skinModule = await import(pathToFileURL(esPath).href);
+      } catch {
+        throw new Error(
+          `Skin "${file}" não encontrada em @telefonica/mistica. Execute: npm install @telefonica/mistica`
+        );
+      }
+    }
+
+    const getSkin = skinModule?.[getter];
+    if (typeof getSkin !== "function") {
+      throw new Error(`Função ${getter} não exportada pela skin "${file}"`);
+    }
+
+    return getSkin();
+  }
+
+  /**
+   * Lê os valores numéricos aceitos pela prop `space` do Stack
+   */
+  private async readSpacingScale(): Promise<number[]> {
+    try {
+      const typePath = path.join(this.misticaPath, "dist", "stack.d.ts");
+      const content = await fs.readFile(typePath, "utf-8");
+      const match = content.match(/type\s+\w*Space\s*=\s*([\d\s|]+);/);
+      if (match) {
+        const values = match[1]
+          .split("|")
+          .map((v) => Number(v.trim()))
+          .filter((v) => !Number.isNaN(v));
+        if (values.length > 0) {
+          return values;
+        }
+      }
+    } catch {
+      // Tipagem indisponível, usa a escala padrão
+    }
+    return DEFAULT_SPACING_SCALE;
+  }
+
+  /**
+   * As skins declaram `darkModeColors` apenas para as cores que mudam no
+   * modo escuro; as demais herdam o valor do modo claro.
+   */
+  private extractColorTokens(
+    colors: Record<string, string>,
+    darkModeColors: Record<string, string>
+  ): DesignToken[] {
+    return Object.entries(colors)
+      .filter(([, value]) => typeof value === "string")
+      .map(([name, value]) => {
+        const dark =
+          typeof darkModeColors[name] === "string" ? darkModeColors[name] : value;
+        return {
+          name: `colors.${name}`,
+          value,
+          modes: { light: value, dark },
+          category: "color" as const,
+          description: `Use skinVars.colors.${name}`,
+        };
+      });
+  }
+
+  private extractBorderTokens(radii: Record<string, string>): DesignToken[] {
+    return Object.entries(radii)
+      .filter(([, value]) => typeof value === "string")
+      .map(([name, value]) => ({
+        name: `borderRadii.${name}`,
+        value,
+        category: "border" as const,
+        description: `Use skinVars.borderRadii.${name}`,
+      }));
+  }
+
+  private extractSpacingTokens(scale: number[]): DesignToken[] {
+    return scale.map((value) => ({
+      name: `space.${value}`,
+      value: `${value}px`,
+      category: "spacing" as const,
+      description: `Valor aceito em space/padding de Stack, Inline e Box (${value})`,
+    }));
+  }
+
+  private extractTypographyTokens(
+    presets: Record<string, Record<string, unknown>>
+  ): DesignToken[] {
+    const tokens: DesignToken[] = [];
+
+    for (const [preset, definition] of Object.entries(presets)) {
+      for (const [property, value] of Object.entries(definition || {})) {
+        tokens.push({
+          name: `textPresets.${preset}.${property}`,
+          value: typeof value === "object" ? JSON.stringify(value) : String(value),
+          category: "typography",
+          description: `Propriedade ${property} do preset de texto ${preset}`,
+        });
+      }
+    }
+
+    return tokens;
+  }
+}
@@ -0,0 +1,138 @@
+import { promises as fs } from "fs";
+import path from "path";
+import { fileURLToPath } from "url";
+import type { MisticaComponent } from "../types/mistica.js";
+import type { Cache } from "../types/cache.js";
+import {
+  MisticaNpmAnalyzer,
+  resolveMisticaPackagePath,
+} from "./MisticaNpmAnalyzer.js";
+
+/**
+ * 🗂️ MisticaVersionRepository - Localiza versões do pacote disponíveis localmente
+ *
+ * Responsabilidade: Encontrar tarballs extraídos de @telefonica/mistica em
+ * um diretório configurável e analisá-los com o MisticaNpmAnalyzer.
+ *
+ * Layouts aceitos dentro do diretório de versões:
+ * - `<dir>/<qualquer-nome>/package.json`
+ * - `<dir>/<qualquer-nome>/package/package.json` (resultado de `tar -xzf`)
+ */
+
+export const INSTALLED_VERSION = "installed";
+
+export interface LocalMisticaVersion {
+  version: string;
+  path: string;
+}
+
+export class MisticaVersionRepository {
+  private cache: Cache;
+  private versionsDir: string;
+
+  constructor(cacheManager: Cache, versionsDir?: string) {
+    this.cache = cacheManager;
+    if (versionsDir) {
+      this.versionsDir = path.resolve(versionsDir);
+    } else if (process.env.MISTICA_VERSIONS_DIR) {
+      this.versionsDir = path.resolve(process.env.MISTICA_VERSIONS_DIR);
+    } else {
+      const currentDir = path.dirname(fileURLToPath(import.meta.url));
+      const mcpServerRoot = path.resolve(currentDir, "../../"); // src/scraper -> root
+      this.versionsDir = path.join(mcpServerRoot, "data", "versions");
+    }
+  }
+
+  getVersionsDir(): string {
+    return this.versionsDir;
+  }
+
+  async listVersions(): Promise<LocalMisticaVersion[]> {
+    let entries: string[];
+    try {
+      entries = await fs.readdir(this.versionsDir);
+    } catch {
+      return [];
+    }
+
+    const versions: LocalMisticaVersion[] = [];
+    for (const entry of entries) {
+      const candidates = [
+        path.join(this.versionsDir, entry),
+        path.join(this.versionsDir, entry, "package"),
+      ];
+      for (const candidate of candidates) {
+        const version = await this.readVersion(candidate);
+        if (version) {
+          versions.push({ version, path: candidate });
+          break;
+        }
+      }
+    }
+
+    return versions.sort((a, b) =>
+      a.version.localeCompare(b.version, undefined, { numeric: true })
+    );
+  }
+
+  /**
+   * Resolve uma versão (ex: "15.4.0") ou "installed" para o diretório do pacote
+   */
+  async resolveVersion(version: string): Promise<LocalMisticaVersion> {
+    if (version === INSTALLED_VERSION) {
+      const installedPath = resolveMisticaPackagePath();
+      const installedVersion = await this.readVersion(installedPath);
+      if (!installedVersion) {
+        throw new Error("Pacote @telefonica/mistica não está instalado");
+      }
+      return { version: installedVersion, path: installedPath };
+    }
+
+    const versions = await this.listVersions();
+    const found = versions.find((candidate) => candidate.version === version);
+    if (!found) {
+      const available = versions.map((v) => v.version).join(", ") || "nenhuma";
+      throw new Error(
+        `Versão ${version} não encontrada em ${this.versionsDir}. Disponíveis: ${available}`
+      );
+    }
+    return found;
+  }
+
+  /**
+   * Analisa a versão informada. Versões publicadas são imutáveis, então o
+   * resultado fica em cache por uma semana.
+   */
+  async getComponents(version: LocalMisticaVersion): Promise<MisticaComponent[]> {
+    const cacheKey = `npm_components_v${version.version}`;
+
+    const cached = await this.cache.get<MisticaComponent[]>(cacheKey);
+    if (cached) {
+      console.error(
+        `📦 Cache hit: ${cached.length} componentes da versão ${version.version}`
+      );
+      return cached;
+    }
+
+    const analyzer = new MisticaNpmAnalyzer(this.cache, version.path);
+    const components = await analyzer.analyzePackage();
+    await this.cache.set(cacheKey, components, 60 * 24 * 7);
+
+    return components;
+  }
+
+  private async readVersion(packagePath: string): Promise<string | null> {
+    try {
+      const content = await fs.readFile(
+        path.join(packagePath, "package.json"),
+        "utf-8"
+      );
+      const packageInfo = JSON.parse(content);
+      return packageInfo.name === "@telefonica/mistica" && packageInfo.version
+        ? String(packageInfo.version)
+        : null;
+    } catch {
+      return null;
+    }
+  }
+}
@@ -0,0 +1,140 @@
+import { promises as fs } from "fs";
+import path from "path";
+
+/**
+ * 📚 StorybookIndexParser - Lê os índices de stories do Storybook
+ *
+ * Responsabilidade: Normalizar os formatos publicados pelo Storybook em uma
+ * lista única de stories com `args` e `argTypes`, vindos do próprio índice
+ * ou de um build local.
+ *
+ * Formatos aceitos:
+ * - `stories.json` v3 (Storybook 6.x e saída do `storybook extract`)
+ * - `index.json` v4/v5 (Storybook 7+), onde entradas `docs` são ignoradas
+ *
+ * Em um build local (`storybook-static`), `index.json` e `stories.json` são
+ * combinados por id: o índice traz a lista de stories e o `stories.json`
+ * gerado pelo `storybook extract` completa os args, argTypes e o código
+ * fonte da story (`parameters.docs.source`).
+ */
+
+export interface StorybookStoryEntry {
+  id: string;
+  title: string;
+  name: string;
+  importPath?: string;
+  tags?: string[];
+  args?: Record<string, any>;
+  argTypes?: Record<string, any>;
+  source?: string;
+}
+
+const INDEX_FILES = ["index.json", "stories.json"];
+
+export class StorybookIndexParser {
+  parse(data: any): StorybookStoryEntry[] {
+    if (!data || typeof data !== "object") {
+      throw new Error("Índice do Storybook inválido: conteúdo não é um objeto");
+    }
+
+    const version = Number(data.v);
+
+    if (data.entries && typeof data.entries === "object") {
+      if (version && version < 4) {
+        throw new Error(`Versão de index.json não suportada: v${data.v}`);
+      }
+      return Object.entries<any>(data.entries)
+        .filter(([, entry]) => (entry.type || "story") === "story")
+        .map(([id, entry]) => this.toEntry(id, entry));
+    }
+
+    if (data.stories && typeof data.stories === "object") {
+      if (version && version !== 3) {
+        throw new Error(`Versão de stories.json não suportada: v${data.v}`);
+      }
+      return Object.entries<any>(data.stories).map(([id, story]) =>
+        this.toEntry(id, story)
+      );
+    }
+
+    throw new Error(
+      "Índice do Storybook inválido: esperado `entries` (index.json) ou `stories` (stories.json)"
+    );
+  }
+
+  /**
+   * Lê `index.json` e/ou `stories.json` de um build local e combina as
+   * entradas pelo id da story
+   */
+  async readBuildDirectory(dir: string): Promise<StorybookStoryEntry[]> {
+    const byId = new Map<string, StorybookStoryEntry>();
+    let filesRead = 0;
+
+    for (const file of INDEX_FILES) {
+      let content: string;
+      try {
+        content = await fs.readFile(path.join(dir, file), "utf-8");
+      } catch {
+        continue;
+      }
+
+      filesRead++;
+      for (const entry of this.parse(JSON.parse(content))) {
+        byId.set(entry.id, this.mergeEntries(byId.get(entry.id), entry));
+      }
+    }
+
+    if (filesRead === 0) {
+      throw new Error(
+        `Nenhum índice do Storybook (${INDEX_FILES.join(", ")}) encontrado em ${dir}`
+      );
+    }
+
+    return [...byId.values()];
+  }
+
+  private toEntry(id: string, raw: any): StorybookStoryEntry {
+    // stories.json v3 usa `kind`/`story`; index.json usa `title`/`name`
+    const args = raw.args || raw.initialArgs;
+
+    return {
+      id: raw.id || id,
+      title: raw.title || raw.kind || "",
+      name: raw.name || raw.story || "",
+      importPath: raw.importPath,
+      tags: Array.isArray(raw.tags) ? raw.tags : undefined,
+      args: this.isNonEmpty(args) ? args : undefined,
+      argTypes: this.isNonEmpty(raw.argTypes) ? raw.argTypes : undefined,
+      source: this.extractSource(raw.parameters),
+    };
+  }
+
+  /**
+   * Código da story: `originalSource` (csf-plugin do Storybook 7+) ou
+   * `docs.source.code` definido pela própria story
+   */
+  private extractSource(parameters: any): string | undefined {
+    const source =
+      parameters?.docs?.source?.originalSource || parameters?.docs?.source?.code;
+    return typeof source === "string" && source.trim() ? source.trim() : undefined;
+  }
+
+  private mergeEntries(
+    current: StorybookStoryEntry | undefined,
+    next: StorybookStoryEntry
+  ): StorybookStoryEntry {
+    if (!current) return next;
+    return {
+      ...current,
+      importPath: current.importPath || next.importPath,
+      tags: current.tags || next.tags,
+      args: current.args || next.args,
+      argTypes: current.argTypes || next.argTypes,
+      source: current.source || next.source,
+    };
+  }
+
+  private isNonEmpty(value: unknown): value is Record<string, any> {
+    return !!value && typeof value === "object" && Object.keys(value).length > 0;
+  }
+}
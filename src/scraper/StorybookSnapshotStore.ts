@@ -0,0 +1,124 @@
+import { promises as fs } from "fs";
+import path from "path";
+import { fileURLToPath } from "url";
+import { StorybookIndexParser } from "./StorybookIndexParser.js";
+import type { StorybookStoryEntry } from "./StorybookIndexParser.js";
+
+/**
+ * 💾 StorybookSnapshotStore - Snapshot local das stories do Storybook
+ *
+ * Responsabilidade: Importar um build estático do Storybook (ou um snapshot
+ * exportado antes) para um arquivo local versionado, usado pelo scraper no
+ * lugar do Storybook publicado em ambientes sem internet.
+ *
+ * Por padrão o snapshot fica em `data/storybook/snapshot.json`; use
+ * MISTICA_STORYBOOK_SNAPSHOT para outro caminho.
+ */
+
+export const STORYBOOK_SNAPSHOT_FORMAT = "mistica-storybook-snapshot";
+export const STORYBOOK_SNAPSHOT_VERSION = 1;
+
+export interface StorybookSnapshot {
+  format: typeof STORYBOOK_SNAPSHOT_FORMAT;
+  version: number;
+  createdAt: string;
+  source: string;
+  entries: StorybookStoryEntry[];
+}
+
+export class StorybookSnapshotStore {
+  private snapshotPath: string;
+  private parser = new StorybookIndexParser();
+
+  constructor(snapshotPath?: string) {
+    const configured = snapshotPath || process.env.MISTICA_STORYBOOK_SNAPSHOT;
+    if (configured) {
+      this.snapshotPath = path.resolve(configured);
+    } else {
+      const currentDir = path.dirname(fileURLToPath(import.meta.url));
+      const mcpServerRoot = path.resolve(currentDir, "../../"); // src/scraper -> root
+      this.snapshotPath = path.join(mcpServerRoot, "data", "storybook", "snapshot.json");
+    }
+  }
+
+  getSnapshotPath(): string {
+    return this.snapshotPath;
+  }
+
+  /**
+   * Snapshot importado, ou null quando nenhum foi importado ainda
+   */
+  async load(): Promise<StorybookSnapshot | null> {
+    let content: string;
+    try {
+      content = await fs.readFile(this.snapshotPath, "utf-8");
+    } catch {
+      return null;
+    }
+    return this.validate(JSON.parse(content), this.snapshotPath);
+  }
+
+  /**
+   * Aceita um diretório de build (`storybook-static`), um snapshot exportado
+   * ou um `index.json`/`stories.json` avulso, e grava como snapshot local
+   */
+  async importFrom(source: string): Promise<StorybookSnapshot> {
+    const resolved = path.resolve(source);
+    const stats = await fs.stat(resolved);
+
+    let entries: StorybookStoryEntry[];
+    if (stats.isDirectory()) {
+      entries = await this.parser.readBuildDirectory(resolved);
+    } else {
+      const data = JSON.parse(await fs.readFile(resolved, "utf-8"));
+      entries =
+        data?.format === STORYBOOK_SNAPSHOT_FORMAT
+          ? this.validate(data, resolved).entries
+          : this.parser.parse(data);
+    }
+
+    if (entries.length === 0) {
+      throw new Error(`Nenhuma story encontrada em ${resolved}`);
+    }
+
+    const snapshot: StorybookSnapshot = {
+      format: STORYBOOK_SNAPSHOT_FORMAT,
+      version: STORYBOOK_SNAPSHOT_VERSION,
+      createdAt: new Date().toISOString(),
+      source: resolved,
+      entries: [...entries].sort((a, b) => a.id.localeCompare(b.id)),
+    };
+
+    await this.write(this.snapshotPath, snapshot);
+    return snapshot;
+  }
+
+  /**
+   * Copia o snapshot importado para distribuição (ex: artefato de CI)
+   */
+  async exportTo(target: string): Promise<StorybookSnapshot> {
+    const snapshot = await this.load();
+    if (!snapshot) {
+      throw new Error(`Nenhum snapshot importado em ${this.snapshotPath}`);
+    }
+    await this.write(path.resolve(target), snapshot);
+    return snapshot;
+  }
+
+  private async write(file: string, snapshot: StorybookSnapshot): Promise<void> {
+    await fs.mkdir(path.dirname(file), { recursive: true });
+    await fs.writeFile(file, JSON.stringify(snapshot, null, 2), "utf-8");
+  }
+
+  private validate(data: any, file: string): StorybookSnapshot {
+    if (data?.format !== STORYBOOK_SNAPSHOT_FORMAT || !Array.isArray(data.entries)) {
+      throw new Error(`Arquivo não é um snapshot do Storybook válido: ${file}`);
+    }
+    if (data.version > STORYBOOK_SNAPSHOT_VERSION) {
+      throw new Error(
+        `Snapshot v${data.version} é mais novo que o suportado (v${STORYBOOK_SNAPSHOT_VERSION}): ${file}`
+      );
+    }
+    return data as StorybookSnapshot;
+  }
+}
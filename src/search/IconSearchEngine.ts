@@ -0,0 +1,142 @@
+import type { MisticaIcon, MisticaIconWeight } from "../types/mistica.js";
+
+/**
+ * 🖼️ IconSearchEngine - Busca de ícones do Mística por palavras-chave
+ *
+ * Responsabilidade: Encontrar ícones concretos (`IconXxxRegular` etc.) a
+ * partir de termos livres ("trash", "chevron right", "ic_wifi_24"),
+ * agrupando os pesos disponíveis de cada ícone.
+ */
+
+export interface IconMatch {
+  icon: MisticaIcon; // peso preferido (o pedido, ou regular)
+  weights: MisticaIconWeight[];
+  score: number;
+}
+
+export interface IconSearchOptions {
+  weight?: MisticaIconWeight;
+  limit?: number;
+}
+
+const ICON_WEIGHTS: MisticaIconWeight[] = ["regular", "light", "filled"];
+
+// Palavras que só indicam "é um ícone" em nomes de camadas e buscas
+const IGNORED_WORDS = new Set(["icon", "icons", "ic", "icone", "icones", "svg"]);
+
+/**
+ * Quebra nomes PascalCase, kebab/snake case e frases em palavras
+ * minúsculas e sem acentos
+ */
+export function splitIconWords(text: string): string[] {
+  return text
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/([a-z0-9])([A-Z])/g, "$1 $2")
+    .replace(/([A-Z]+)([A-Z][a-z])/g, "$1 $2")
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(Boolean);
+}
+
+export class IconSearchEngine {
+  search(
+    icons: MisticaIcon[],
+    query: string,
+    options: IconSearchOptions = {}
+  ): IconMatch[] {
+    const words = splitIconWords(query).filter(
+      (word) => !IGNORED_WORDS.has(word) && !/^\d+(px|dp)?$/.test(word)
+    );
+
+    // "trash filled" filtra pelo peso quando não foi informado explicitamente
+    const weightWord = words.find((word) =>
+      ICON_WEIGHTS.includes(word as MisticaIconWeight)
+    ) as MisticaIconWeight | undefined;
+    const weight = options.weight || weightWord;
+    const terms = words.filter((word) => word !== weightWord);
+
+    if (terms.length === 0) {
+      return [];
+    }
+
+    const matches: IconMatch[] = [];
+    for (const variants of this.groupByBaseName(icons).values()) {
+      const icon = this.pickWeight(variants, weight);
+      if (!icon) continue;
+
+      const score = this.calculateScore(icon, terms);
+      if (score > 0) {
+        matches.push({
+          icon,
+          weights: variants.map((variant) => variant.weight),
+          score,
+        });
+      }
+    }
+
+    return matches
+      .sort(
+        (a, b) =>
+          b.score - a.score || a.icon.baseName.localeCompare(b.icon.baseName)
+      )
+      .slice(0, options.limit ?? 10);
+  }
+
+  /**
+   * Todos os termos precisam casar com o nome ou com uma palavra-chave;
+   * nomes exatos e curtos ficam na frente
+   */
+  private calculateScore(icon: MisticaIcon, terms: string[]): number {
+    const nameWords = splitIconWords(icon.baseName);
+    let score = 0;
+    let matchedNameWords = 0;
+
+    for (const term of terms) {
+      let termScore = 0;
+      if (nameWords.includes(term)) {
+        termScore = 10;
+        matchedNameWords++;
+      } else if (icon.keywords.includes(term)) {
+        termScore = 6;
+      } else if (term.length >= 3 && nameWords.some((word) => word.startsWith(term))) {
+        termScore = 5;
+        matchedNameWords++;
+      } else if (term.length >= 3 && icon.keywords.some((word) => word.startsWith(term))) {
+        termScore = 3;
+      }
+
+      if (termScore === 0) {
+        return 0;
+      }
+      score += termScore;
+    }
+
+    if (nameWords.join("") === terms.join("")) {
+      score += 20;
+    }
+
+    // Penaliza palavras do nome que a busca não pediu (ex: "TrashCanCircle")
+    return Math.max(score - (nameWords.length - matchedNameWords), 1);
+  }
+
+  private groupByBaseName(icons: MisticaIcon[]): Map<string, MisticaIcon[]> {
+    const groups = new Map<string, MisticaIcon[]>();
+    for (const icon of icons) {
+      const group = groups.get(icon.baseName) || [];
+      group.push(icon);
+      groups.set(icon.baseName, group);
+    }
+    return groups;
+  }
+
+  private pickWeight(
+    variants: MisticaIcon[],
+    weight?: MisticaIconWeight
+  ): MisticaIcon | undefined {
+    if (weight) {
+      return variants.find((variant) => variant.weight === weight);
+    }
+    return variants.find((variant) => variant.weight === "regular") || variants[0];
+  }
+}
@@ -111,6 +111,11 @@ export class SearchEngine {
 
     score += this.getFunctionalityScore(component, originalQuery, searchTerms);
 
+    // Componentes depreciados continuam encontráveis, mas abaixo dos atuais
+    if (component.deprecation) {
+      score = Math.round(score * 0.5);
+    }
+
     return score;
   }
 
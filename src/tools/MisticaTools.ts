@@ -1,10 +1,68 @@
+import { z } from "zod";
 import { MisticaScraper } from "../scraper/MisticaScraper.js";
-import { CacheManager } from "../cache/CacheManager.js";
+import type { Cache } from "../types/cache.js";
 import { FigmaAnalyzer } from "../analyzers/FigmaAnalyzer.js";
 import { ComponentMapper } from "../mappers/ComponentMapper.js";
 import { RefactoringGenerator } from "../generators/RefactoringGenerator.js";
+import { CodemodGenerator } from "../generators/CodemodGenerator.js";
+import { ComponentDocsGenerator } from "../generators/ComponentDocsGenerator.js";
 import { SearchEngine } from "../search/SearchEngine.js";
+import { IconSearchEngine } from "../search/IconSearchEngine.js";
+import { MisticaTokenExtractor } from "../scraper/MisticaTokenExtractor.js";
+import { MisticaNpmAnalyzer } from "../scraper/MisticaNpmAnalyzer.js";
+import { MisticaVersionRepository } from "../scraper/MisticaVersionRepository.js";
+import { VersionComparator } from "../analyzers/VersionComparator.js";
+import type { MisticaChangelog } from "../analyzers/VersionComparator.js";
+import { MisticaUsageValidator } from "../analyzers/MisticaUsageValidator.js";
+import { HardcodedStyleLinter } from "../analyzers/HardcodedStyleLinter.js";
 import type { MisticaComponent, Tool } from "../types/interfaces.js";
+import {
+  CACHE_STATUS_OUTPUT,
+  COLOR_SCHEME_DIFF_OUTPUT,
+  COMPARE_VERSIONS_OUTPUT,
+  COMPONENT_DOCS_OUTPUT,
+  COMPONENT_NAMES_OUTPUT,
+  DESIGN_TOKENS_OUTPUT,
+  GENERATE_CODEMOD_OUTPUT,
+  ICON_SEARCH_OUTPUT,
+  LINT_STYLES_OUTPUT,
+  MAP_FIGMA_OUTPUT,
+  SEARCH_COMPONENTS_OUTPUT,
+  USAGE_EXAMPLES_OUTPUT,
+  VALIDATE_USAGE_OUTPUT,
+} from "./outputSchemas.js";
+import {
+  CACHE_SOURCE_NAMES,
+  CACHE_STATUS_INPUT,
+  COLOR_SCHEME_DIFF_INPUT,
+  COMPARE_VERSIONS_INPUT,
+  COMPONENT_DOCS_INPUT,
+  DESIGN_TOKENS_INPUT,
+  EXPLORE_CATEGORIES_INPUT,
+  GENERATE_CODEMOD_INPUT,
+  ICON_SEARCH_INPUT,
+  LINT_STYLES_INPUT,
+  LIST_COMPONENTS_INPUT,
+  MAP_FIGMA_INPUT,
+  SEARCH_COMPONENTS_INPUT,
+  SKIN_SCHEMA,
+  USAGE_EXAMPLES_INPUT,
+  VALIDATE_USAGE_INPUT,
+} from "./inputSchemas.js";
+import type { CacheSourceName } from "./inputSchemas.js";
+import { ToolRegistry } from "./ToolRegistry.js";
+import { MisticaCatalog } from "../catalog/MisticaCatalog.js";
+import type {
+  DesignToken,
+  MisticaIcon,
+  MisticaSkinName,
+} from "../types/mistica.js";
+import {
+  DEFAULT_SKIN,
+  MISTICA_SKINS,
+  generateThemeProviderSnippet,
+  resolveSkinName,
+} from "../utils/skins.js";
 
 const COMPONENT_CATEGORY_LABELS = {
   components: "UI Components",
@@ -18,6 +76,16 @@ const COMPONENT_CATEGORY_LABELS = {
   lab: "Experimental",
 } as const;
 
+// Chaves de cache de cada fonte, para invalidação seletiva. O catálogo
+// combinado deriva da análise npm e sai junto com ela.
+const CACHE_SOURCE_KEYS: Record<CacheSourceName, RegExp> = {
+  components: /^all_components_/,
+  npm: /^(npm_components|npm_icons|all_components_\w+)$/,
+  icons: /^npm_icons$/,
+  tokens: /^design_tokens_/,
+  versions: /^npm_components_v/,
+};
+
 const DESIGN_TOKEN_CATEGORY_LABELS = {
   color: "Colors",
   spacing: "Spacing",
@@ -33,13 +101,45 @@ export class MisticaTools {
   private componentMapper: ComponentMapper;
   private refactoringGenerator: RefactoringGenerator;
   private searchEngine: SearchEngine;
-
-  constructor(cacheManager: CacheManager) {
-    this.misticaScraper = new MisticaScraper(cacheManager);
+  private iconSearch: IconSearchEngine;
+  private tokenExtractor: MisticaTokenExtractor;
+  private versionRepository: MisticaVersionRepository;
+  private versionComparator: VersionComparator;
+  private codemodGenerator: CodemodGenerator;
+  private docsGenerator: ComponentDocsGenerator;
+  private npmAnalyzer: MisticaNpmAnalyzer;
+  private usageValidator: MisticaUsageValidator;
+  private styleLinter: HardcodedStyleLinter;
+  private defaultSkin: MisticaSkinName;
+  private catalog?: MisticaCatalog;
+  private cache: Cache;
+  private registry: ToolRegistry;
+
+  constructor(
+    cacheManager: Cache,
+    misticaScraper: MisticaScraper,
+    tokenExtractor: MisticaTokenExtractor,
+    defaultSkin: MisticaSkinName = DEFAULT_SKIN,
+    catalog?: MisticaCatalog
+  ) {
+    this.defaultSkin = defaultSkin;
+    this.catalog = catalog;
+    this.cache = cacheManager;
+    this.misticaScraper = misticaScraper;
+    this.tokenExtractor = tokenExtractor;
+    this.versionRepository = new MisticaVersionRepository(cacheManager);
+    this.versionComparator = new VersionComparator();
+    this.codemodGenerator = new CodemodGenerator();
+    this.docsGenerator = new ComponentDocsGenerator();
+    this.npmAnalyzer = new MisticaNpmAnalyzer(cacheManager);
+    this.usageValidator = new MisticaUsageValidator();
+    this.styleLinter = new HardcodedStyleLinter();
     this.figmaAnalyzer = new FigmaAnalyzer();
     this.componentMapper = new ComponentMapper();
     this.refactoringGenerator = new RefactoringGenerator();
     this.searchEngine = new SearchEngine();
+    this.iconSearch = new IconSearchEngine();
+    this.registry = this.createRegistry();
   }
 
   private getCategoryLabel(category: string): string {
@@ -52,87 +152,171 @@ export class MisticaTools {
 
   private formatComponentResult(comp: MisticaComponent, index: number): string {
     const categoryLabel = this.getCategoryLabel(comp.category);
-    return `${index + 1}. ${comp.name} (${categoryLabel})\n   ${
-      comp.description
-    }`;
+    return `${index + 1}. ${comp.name} (${categoryLabel})${this.formatDeprecation(
+      comp
+    )}\n   ${comp.description}`;
+  }
+
+  private formatDeprecation(comp: MisticaComponent): string {
+    if (!comp.deprecation) {
+      return "";
+    }
+    return comp.deprecation.replacement
+      ? ` [DEPRECIADO - use ${comp.deprecation.replacement}]`
+      : " [DEPRECIADO]";
   }
 
-  getAllTools(): Record<string, Tool> {
+  private toComponentSummary(comp: MisticaComponent) {
     return {
-      searchComponents: {
+      name: comp.name,
+      category: comp.category,
+      description: comp.description,
+      deprecation: comp.deprecation,
+    };
+  }
+
+  /**
+   * Descreve o argumento `skin` com a skin padrão deste servidor
+   */
+  private withServerSkin<Shape extends { skin: typeof SKIN_SCHEMA }>(
+    input: z.ZodObject<Shape>
+  ) {
+    return input.extend({
+      skin: SKIN_SCHEMA.describe(
+        `${SKIN_SCHEMA.description} Padrão do servidor: ${this.defaultSkin}`
+      ),
+    });
+  }
+
+  private createRegistry(): ToolRegistry {
+    return new ToolRegistry()
+      .register({
         name: "search_components",
         description:
           "Busca componentes do Mística design system por termo ou conceito",
-        inputSchema: {
-          type: "object",
-          properties: {
-            query: {
-              type: "string",
-              description:
-                'Termo ou conceito para buscar (ex: "button", "card", "form", "icon")',
-            },
-          },
-          required: ["query"],
-        },
-      },
-
-      mapFigmaToMistica: {
+        input: SEARCH_COMPONENTS_INPUT,
+        outputSchema: SEARCH_COMPONENTS_OUTPUT,
+        handler: (args) => this.searchComponents(args),
+      })
+      .register({
         name: "map_figma_to_mistica",
         description:
           "Mapeia código do Figma para componentes equivalentes do Mística design system",
-        inputSchema: {
-          type: "object",
-          properties: {
-            figmaCode: {
-              type: "string",
-              description:
-                "Código React/HTML gerado pelo Figma para análise e mapeamento",
-            },
-            includeRefactoring: {
-              type: "boolean",
-              description:
-                "Incluir sugestões de refatoração usando componentes do Mística",
-              default: true,
-            },
-          },
-          required: ["figmaCode"],
-        },
-      },
+        input: this.withServerSkin(MAP_FIGMA_INPUT),
+        outputSchema: MAP_FIGMA_OUTPUT,
+        handler: (args) => this.mapFigmaToMistica(args),
+      })
+      .register({
+        name: "list_mistica_components",
+        description:
+          "Lista todos os componentes disponíveis no design system Mística",
+        input: LIST_COMPONENTS_INPUT,
+        outputSchema: COMPONENT_NAMES_OUTPUT,
+        handler: (args) => this.listComponents(args),
+      })
+      .register({
+        name: "get_mistica_component_docs",
+        description:
+          "Obtém a documentação completa de um componente do Mística: descrição, props, stories do Storybook com args, componentes relacionados, import, depreciações e tokens",
+        input: this.withServerSkin(COMPONENT_DOCS_INPUT),
+        outputSchema: COMPONENT_DOCS_OUTPUT,
+        handler: (args) => this.getComponentDocs(args),
+      })
+      .register({
+        name: "search_mistica_icons",
+        description:
+          'Busca ícones do Mística (IconXxxRegular/Light/Filled) por nome ou conceito, ex: "trash", "chevron right", "wifi", e retorna os nomes prontos para import',
+        input: ICON_SEARCH_INPUT,
+        outputSchema: ICON_SEARCH_OUTPUT,
+        handler: (args) => this.searchIcons(args),
+      })
+      .register({
+        name: "get_mistica_usage_examples",
+        description:
+          "Obtém exemplos de uso e código para componentes do Mística",
+        input: this.withServerSkin(USAGE_EXAMPLES_INPUT),
+        outputSchema: USAGE_EXAMPLES_OUTPUT,
+        handler: (args) => this.getUsageExamples(args),
+      })
+      .register({
+        name: "get_mistica_design_tokens",
+        description:
+          "Obtém design tokens (cores, espaçamentos, tipografia) do Mística",
+        input: this.withServerSkin(DESIGN_TOKENS_INPUT),
+        outputSchema: DESIGN_TOKENS_OUTPUT,
+        handler: (args) => this.getDesignTokens(args),
+      })
+      .register({
+        name: "get_mistica_color_scheme_diff",
+        description:
+          "Lista os tokens de cor de uma skin cujo valor no modo escuro difere do modo claro",
+        input: this.withServerSkin(COLOR_SCHEME_DIFF_INPUT),
+        outputSchema: COLOR_SCHEME_DIFF_OUTPUT,
+        handler: (args) => this.getColorSchemeDiff(args),
+      })
+      .register({
+        name: "compare_mistica_versions",
+        description:
+          "Compara duas versões do @telefonica/mistica disponíveis localmente e gera um changelog de migração (exports, props, tipos e depreciações)",
+        input: COMPARE_VERSIONS_INPUT,
+        outputSchema: COMPARE_VERSIONS_OUTPUT,
+        handler: (args) => this.compareVersions(args),
+      })
+      .register({
+        name: "generate_mistica_codemod",
+        description:
+          "Gera um codemod (transform jscodeshift) para as breaking changes mecânicas entre duas versões do Mística e pré-visualiza o resultado sobre um snippet",
+        input: GENERATE_CODEMOD_INPUT,
+        outputSchema: GENERATE_CODEMOD_OUTPUT,
+        handler: (args) => this.generateCodemod(args),
+      })
+      .register({
+        name: "validate_mistica_usage",
+        description:
+          "Valida um snippet TSX contra a API real dos componentes do Mística instalados: imports inexistentes, props desconhecidas, props obrigatórias ausentes e valores inválidos",
+        input: VALIDATE_USAGE_INPUT,
+        outputSchema: VALIDATE_USAGE_OUTPUT,
+        handler: (args) => this.validateUsage(args),
+      })
+      .register({
+        name: "lint_mistica_styles",
+        description:
+          "Encontra estilos fixos (cores hex/rgb, paddings/margins em px, tamanhos de fonte e raios de borda) em TSX/CSS e sugere o token, espaçamento ou preset de texto do Mística mais próximo",
+        input: this.withServerSkin(LINT_STYLES_INPUT),
+        outputSchema: LINT_STYLES_OUTPUT,
+        handler: (args) => this.lintStyles(args),
+      })
+      .register({
+        name: "get_mistica_cache_status",
+        description:
+          "Inspeciona o cache do MCP server Mística (entradas, tamanhos, expiração, hits/misses e fontes do catálogo) e permite atualizar, invalidar ou limpar",
+        input: CACHE_STATUS_INPUT,
+        outputSchema: CACHE_STATUS_OUTPUT,
+        handler: (args) => this.getCacheStatus(args),
+      })
+      .register({
+        name: "explore_mistica_categories",
+        description:
+          "Explora componentes por categoria específica",
+        input: EXPLORE_CATEGORIES_INPUT,
+        outputSchema: COMPONENT_NAMES_OUTPUT,
+        handler: (args) => this.exploreCategories(args),
+      });
+  }
 
-      listComponents: this.getListComponentsTool(),
-      getUsageExamples: this.getUsageExamplesTool(),
-      getDesignTokens: this.getDesignTokensTool(),
-      getCacheStatus: this.getCacheStatusTool(),
-      exploreCategories: this.getExploreCategoryTool(),
-    };
+  getAllTools(): Tool[] {
+    return this.registry.list();
   }
 
-  async executeTool(toolName: string, args: any): Promise<any> {
-    switch (toolName) {
-      case "search_components":
-        return this.searchComponents(args);
-      case "map_figma_to_mistica":
-        return this.mapFigmaToMistica(args);
-      case "list_mistica_components":
-        return this.listComponents(args);
-      case "get_mistica_usage_examples":
-        return this.getUsageExamples(args);
-      case "get_mistica_design_tokens":
-        return this.getDesignTokens(args);
-      case "get_mistica_cache_status":
-        return this.getCacheStatus(args);
-      case "explore_mistica_categories":
-        return this.exploreCategories(args);
-      default:
-        return { error: `Ferramenta não encontrada: ${toolName}` };
-    }
+  /**
+   * Valida os argumentos e executa a ferramenta pelo nome publicado no MCP
+   */
+  async executeTool(toolName: string, args: unknown): Promise<Record<string, unknown>> {
+    return this.registry.execute(toolName, args);
   }
 
-  async searchComponents(args: any) {
-    const query = args.query?.toLowerCase().trim();
-    if (!query) {
-      return { error: "Consulta é obrigatória" };
-    }
+  async searchComponents(args: z.infer<typeof SEARCH_COMPONENTS_INPUT>) {
+    const query = args.query.toLowerCase();
 
     try {
       const allComponents = await this.misticaScraper.getAllComponents();
@@ -143,40 +327,38 @@ export class MisticaTools {
 
       if (results.length === 0) {
         return {
-          message: `Nenhum componente encontrado para "${query}"`,
+          query: query,
+          total_found: 0,
+          components: [],
           suggestion:
             "Tente termos como: button, card, form, input, icon, layout, navigation, list, navbar, header",
+          message: `Nenhum componente encontrado para "${query}"`,
         };
       }
 
-      const formattedResults = results
-        .slice(0, 8)
-        .map((comp, index) => {
-          const categoryLabel = this.getCategoryLabel(comp.category);
-          return `${index + 1}. ${comp.name} (${categoryLabel})\n   ${
-            comp.description
-          }`;
-        })
+      const topResults = results.slice(0, 8);
+      const formattedResults = topResults
+        .map((comp, index) => this.formatComponentResult(comp, index))
         .join("\n\n");
 
       return {
         query: query,
         total_found: results.length,
-        components: formattedResults,
+        components: topResults.map((comp) => this.toComponentSummary(comp)),
+        deprecated: topResults
+          .filter((comp) => comp.deprecation)
+          .map((comp) => ({ name: comp.name, ...comp.deprecation })),
         message: `Busca por "${query}" - ${results.length} resultado(s):\n\n${formattedResults}`,
       };
     } catch (error: any) {
       return { error: `Erro na busca: ${error.message}` };
     }
   }
-  async mapFigmaToMistica(args: any) {
-    const { figmaCode, includeRefactoring = true } = args;
-
-    if (!figmaCode) {
-      return { error: "Código do Figma é obrigatório" };
-    }
+  async mapFigmaToMistica(args: z.infer<typeof MAP_FIGMA_INPUT>) {
+    const { figmaCode, includeRefactoring } = args;
 
     try {
+      const skin = resolveSkinName(args.skin, this.defaultSkin);
       const analysis = this.figmaAnalyzer.analyzeFigmaCode(figmaCode);
       const allComponents = await this.misticaScraper.getAllComponents();
       const suggestions = await this.componentMapper.findMisticaEquivalents(
@@ -185,6 +367,10 @@ export class MisticaTools {
         analysis.patterns,
         allComponents
       );
+      const iconSuggestions = this.componentMapper.findIconEquivalents(
+        analysis.elements,
+        await this.getIconIndexSafely()
+      );
 
       let response = `Análise do código Figma\n\n`;
 
@@ -247,25 +433,50 @@ export class MisticaTools {
         suggestions.forEach((suggestion, index) => {
           response += `${index + 1}. ${suggestion.component.name} (${
             suggestion.component.category
-          })\n`;
+          })${this.formatDeprecation(suggestion.component)}\n`;
           response += `   Descrição: ${suggestion.component.description}\n`;
           response += `   Relevância: ${suggestion.reason}\n\n`;
         });
       }
 
+      if (iconSuggestions.length > 0) {
+        response += `Ícones sugeridos:\n`;
+        iconSuggestions.forEach((suggestion) => {
+          response += `- ${suggestion.layer} → ${suggestion.icon.name}\n`;
+        });
+        response += "\n";
+      }
+
+      let refactoring: string | undefined;
       if (includeRefactoring && suggestions.length > 0) {
-        response += `Sugestão de refatoração:\n`;
-        response += this.refactoringGenerator.generateGenericRefactoring(
+        refactoring = this.refactoringGenerator.generateGenericRefactoring(
           analysis.elements,
           analysis.structure,
           analysis.patterns,
-          suggestions
+          suggestions,
+          iconSuggestions
         );
+        response += `Sugestão de refatoração:\n${refactoring}`;
+        response += `\nConfiguração de tema (${MISTICA_SKINS[skin].label}):\n`;
+        response += "```tsx\n" + generateThemeProviderSnippet(skin) + "\n```\n";
       }
 
       return {
+        skin,
         analysis: analysis,
-        suggestions: suggestions.map((s) => s.component),
+        suggestions: suggestions.map((s) => ({
+          ...this.toComponentSummary(s.component),
+          reason: s.reason,
+          score: s.score,
+        })),
+        icons: iconSuggestions.map((s) => ({
+          layer: s.layer,
+          role: s.role,
+          name: s.icon.name,
+          weight: s.icon.weight,
+          score: s.score,
+        })),
+        refactoring,
         message: response,
       };
     } catch (error: any) {
@@ -273,150 +484,76 @@ export class MisticaTools {
     }
   }
 
-  getListComponentsTool(): Tool {
-    return {
-      name: "list_mistica_components",
-      description:
-        "Lista todos os componentes disponíveis no design system Mística",
-      inputSchema: {
-        type: "object",
-        properties: {
-          category: {
-            type: "string",
-            description: "Filtrar por categoria específica",
-            enum: [
-              "components",
-              "layout",
-              "icons",
-              "utilities",
-              "hooks",
-              "community",
-              "lab",
-              "feedback",
-            ],
-          },
-          includeCount: {
-            type: "boolean",
-            description: "Incluir contagem de componentes por categoria",
-            default: true,
-          },
-        },
-      },
-    };
-  }
+  async searchIcons(args: z.infer<typeof ICON_SEARCH_INPUT>) {
+    const { query, weight, limit } = args;
 
-  getUsageExamplesTool(): Tool {
-    return {
-      name: "get_mistica_usage_examples",
-      description: "Obtém exemplos de uso e código para componentes do Mística",
-      inputSchema: {
-        type: "object",
-        properties: {
-          componentName: {
-            type: "string",
-            description: "Nome do componente para obter exemplos",
-          },
-          variant: {
-            type: "string",
-            description: "Variante específica do componente (se aplicável)",
-          },
-          format: {
-            type: "string",
-            description: "Formato do exemplo de código",
-            enum: ["react", "html", "both"],
-            default: "react",
-          },
-        },
-        required: ["componentName"],
-      },
-    };
-  }
+    let icons: MisticaIcon[];
+    try {
+      icons = await this.getIconIndex();
+    } catch (error: any) {
+      return { error: `Erro ao indexar ícones: ${error.message}` };
+    }
+
+    const matches = this.iconSearch.search(icons, query, { weight, limit });
+    const results = matches.map(({ icon, weights, score }) => ({
+      name: icon.name,
+      baseName: icon.baseName,
+      weight: icon.weight,
+      weights,
+      keywords: icon.keywords,
+      score,
+      importStatement: `import { ${icon.name} } from "@telefonica/mistica";`,
+    }));
+
+    let response: string;
+    if (results.length === 0) {
+      response = `Nenhum ícone encontrado para "${query}"${
+        weight ? ` com peso ${weight}` : ""
+      } entre ${icons.length} ícones indexados.\n`;
+      response += `Tente termos em inglês, como: trash, chevron, close, wifi, user`;
+    } else {
+      response = `Ícones do Mística para "${query}" (${results.length}):\n\n`;
+      results.forEach((icon, index) => {
+        response += `${index + 1}. ${icon.name} (pesos: ${icon.weights.join(", ")})\n`;
+        response += `   ${icon.importStatement}\n`;
+      });
+    }
 
-  getDesignTokensTool(): Tool {
     return {
-      name: "get_mistica_design_tokens",
-      description:
-        "Obtém design tokens (cores, espaçamentos, tipografia) do Mística",
-      inputSchema: {
-        type: "object",
-        properties: {
-          category: {
-            type: "string",
-            description: "Categoria dos tokens",
-            enum: [
-              "color",
-              "spacing",
-              "typography",
-              "shadow",
-              "border",
-              "other",
-            ],
-          },
-          search: {
-            type: "string",
-            description: "Buscar tokens específicos por nome",
-          },
-        },
-      },
+      query,
+      weight,
+      total_found: results.length,
+      icons: results,
+      message: response,
     };
   }
 
-  getCacheStatusTool(): Tool {
-    return {
-      name: "get_mistica_cache_status",
-      description: "Obtém informações sobre o cache do MCP server Mística",
-      inputSchema: {
-        type: "object",
-        properties: {
-          refresh: {
-            type: "boolean",
-            description: "Forçar atualização do cache",
-            default: false,
-          },
-        },
-      },
-    };
+  /**
+   * Com catálogo congelado, os ícones vêm do arquivo e não do pacote instalado
+   */
+  private getIconIndex(): Promise<MisticaIcon[]> {
+    return this.catalog ? this.catalog.getIcons() : this.npmAnalyzer.getIconIndex();
   }
 
-  getExploreCategoryTool(): Tool {
-    return {
-      name: "explore_mistica_categories",
-      description: "Explora componentes por categoria específica",
-      inputSchema: {
-        type: "object",
-        properties: {
-          category: {
-            type: "string",
-            description: "Categoria para explorar",
-            enum: [
-              "components",
-              "layout",
-              "icons",
-              "utilities",
-              "hooks",
-              "feedback",
-              "patterns",
-              "community",
-              "msticalab",
-            ],
-          },
-          includeDetails: {
-            type: "boolean",
-            description: "Incluir detalhes sobre cada componente",
-            default: false,
-          },
-        },
-        required: ["category"],
-      },
-    };
+  /**
+   * Índice de ícones para o mapeamento do Figma; sem o pacote instalado o
+   * mapeamento segue sem ícones concretos
+   */
+  private async getIconIndexSafely(): Promise<MisticaIcon[]> {
+    try {
+      return await this.getIconIndex();
+    } catch (error: any) {
+      console.warn(`⚠️ Índice de ícones indisponível: ${error.message}`);
+      return [];
+    }
   }
 
   // ===== IMPLEMENTAÇÕES DOS MÉTODOS AUXILIARES =====
 
-  async listComponents(args: any) {
+  async listComponents(args: z.infer<typeof LIST_COMPONENTS_INPUT>) {
     try {
       const allComponents = await this.misticaScraper.getAllComponents();
-      const { category, includeCount = true } = args;
+      const { category, includeCount } = args;
 
       let filteredComponents = allComponents;
       if (category) {
@@ -465,12 +602,61 @@ export class MisticaTools {
     }
   }
 
-  async getUsageExamples(args: any) {
+  async getComponentDocs(args: z.infer<typeof COMPONENT_DOCS_INPUT>) {
     try {
-      const { componentName, format = 'react', includeAdvanced = false } = args;
+      const skin = resolveSkinName(args.skin, this.defaultSkin);
+      const allComponents = await this.misticaScraper.getAllComponents();
+      const lookup = this.docsGenerator.resolveComponent(
+        args.component,
+        allComponents
+      );
+
+      if (!lookup) {
+        const candidates = this.searchEngine
+          .smartSearchComponents(allComponents, args.component.toLowerCase())
+          .slice(0, 5)
+          .map((c) => c.name);
+        return {
+          error: `Componente "${args.component}" não encontrado`,
+          suggestion: candidates.length
+            ? `Você quis dizer: ${candidates.join(", ")}?`
+            : "Use search_components para descobrir o nome correto",
+        };
+      }
+
+      const tokens = await this.tokenExtractor
+        .getAllTokens(skin)
+        .catch(() => [] as DesignToken[]);
+      const docs = this.docsGenerator.generate(
+        lookup.component,
+        allComponents,
+        tokens
+      );
+
+      let message = "";
+      if (lookup.matchedBy === "fuzzy") {
+        message += `Nenhum componente "${args.component}"; mostrando o mais próximo: ${docs.name}\n\n`;
+      }
+      message += this.docsGenerator.toMarkdown(docs);
+
+      return {
+        matchedBy: lookup.matchedBy,
+        skin,
+        ...docs,
+        message,
+      };
+    } catch (error: any) {
+      return { error: `Erro ao obter documentação: ${error.message}` };
+    }
+  }
+
+  async getUsageExamples(args: z.infer<typeof USAGE_EXAMPLES_INPUT>) {
+    try {
+      const { componentName, variant, format, includeAdvanced } = args;
+      const skin = resolveSkinName(args.skin, this.defaultSkin);
       const allComponents = await this.misticaScraper.getAllComponents();
       const component = allComponents.find(
-        (c) => c.name.toLowerCase() === String(componentName).toLowerCase()
+        (c) => c.name.toLowerCase() === componentName.toLowerCase()
       );
 
       if (!component) {
@@ -480,21 +666,34 @@ export class MisticaTools {
       // Lazy import do gerador para evitar custo se não usado em outros fluxos
       const { UsageExampleGenerator } = await import('../generators/UsageExampleGenerator.js');
       const generator = new UsageExampleGenerator();
-      const enrichedMarkdown = generator.generate(component, { format, includeAdvanced });
+      const skinTokens = await this.tokenExtractor
+        .getAllTokens(skin)
+        .catch(() => [] as DesignToken[]);
+      const enrichedMarkdown = generator.generate(component, {
+        format,
+        variant,
+        includeAdvanced,
+        skin,
+        tokens: skinTokens,
+        colorScheme: args.colorScheme,
+      });
 
       // Estrutura JSON auxiliar para consumo programático (props simplificados)
       const props = (component.props || []).slice(0, 12).map((p: any) => ({
         name: p.name,
         type: p.type || p.tsType || p.kind,
         required: !!p.required,
-        default: p.defaultValue?.value || p.default,
-        description: p.description || ''
+        default: p.defaultValue?.value || p.defaultValue || p.default,
+        description: p.description || '',
+        deprecation: p.deprecation
       }));
 
       const variants = this.extractVariantNames(component);
 
       return {
         component: component.name,
+        deprecation: component.deprecation,
+        skin,
         hasExamples: !!(component.examples && component.examples.length),
         variants,
         props,
@@ -520,59 +719,44 @@ export class MisticaTools {
     return Array.from(variants.values());
   }
 
-  async getDesignTokens(args: any) {
+  async getDesignTokens(args: z.infer<typeof DESIGN_TOKENS_INPUT>) {
     try {
       const { category, search } = args;
+      const skin = resolveSkinName(args.skin, this.defaultSkin);
+      const { colorScheme } = args;
 
-      const mockTokens = {
-        color: [
-          {
-            name: "brand-primary",
-            value: "#0066CC",
-            description: "Cor primária da marca",
-          },
-          {
-            name: "brand-secondary",
-            value: "#FF6B00",
-            description: "Cor secundária da marca",
-          },
-          {
-            name: "neutral-gray-100",
-            value: "#F5F5F5",
-            description: "Cinza muito claro",
-          },
-        ],
-        spacing: [
-          {
-            name: "space-8",
-            value: "8px",
-            description: "Espaçamento extra pequeno",
-          },
-          {
-            name: "space-16",
-            value: "16px",
-            description: "Espaçamento pequeno",
-          },
-          { name: "space-24", value: "24px", description: "Espaçamento médio" },
-        ],
-        typography: [
-          {
-            name: "text-title-1",
-            value: "32px/40px",
-            description: "Título principal",
-          },
-          { name: "text-body", value: "16px/24px", description: "Texto corpo" },
-        ],
-      };
-
-      let tokens = mockTokens;
-      if (category && tokens[category as keyof typeof tokens]) {
-        tokens = { [category]: tokens[category as keyof typeof tokens] } as any;
+      let tokens = await this.tokenExtractor.getAllTokens(skin);
+      if (category) {
+        tokens = tokens.filter((token) => token.category === category);
+      }
+      if (search) {
+        const term = search.toLowerCase();
+        tokens = tokens.filter((token) =>
+          token.name.toLowerCase().includes(term)
+        );
       }
 
-      let message = "Design Tokens Mística\n\n";
+      // `value` passa a ser o do modo pedido; `modes` mantém o par completo
+      tokens = tokens.map((token) => ({
+        ...token,
+        value: this.tokenExtractor.resolveTokenValue(token, colorScheme),
+      }));
+
+      const tokensByCategory = tokens.reduce((acc, token) => {
+        if (!acc[token.category]) {
+          acc[token.category] = [];
+        }
+        acc[token.category].push(token);
+        return acc;
+      }, {} as Record<string, DesignToken[]>);
 
-      Object.entries(tokens).forEach(([cat, tokenList]) => {
+      let message = `Design Tokens Mística - ${MISTICA_SKINS[skin].label} (${colorScheme})\n\n`;
+
+      if (tokens.length === 0) {
+        message += "Nenhum token encontrado para os filtros informados\n";
+      }
+
+      Object.entries(tokensByCategory).forEach(([cat, tokenList]) => {
         const categoryLabel =
           DESIGN_TOKEN_CATEGORY_LABELS[
             cat as keyof typeof DESIGN_TOKEN_CATEGORY_LABELS
@@ -580,57 +764,444 @@ export class MisticaTools {
 
         message += `${categoryLabel}\n\n`;
 
-        tokenList.forEach((token: any) => {
-          if (!search || token.name.includes(search.toLowerCase())) {
-            message += `- ${token.name}: ${token.value}\n`;
-            if (token.description) {
-              message += `  ${token.description}\n`;
-            }
-            message += "\n";
+        tokenList.forEach((token) => {
+          message += `- ${token.name}: ${token.value}\n`;
+          if (token.description) {
+            message += `  ${token.description}\n`;
           }
+          message += "\n";
         });
       });
 
-      return { message };
+      return {
+        skin,
+        colorScheme,
+        category: category || "todas",
+        total_tokens: tokens.length,
+        tokens,
+        message,
+      };
     } catch (error: any) {
       return { error: `Erro ao obter design tokens: ${error.message}` };
     }
   }
 
-  async getCacheStatus(args: any) {
+  async getColorSchemeDiff(args: z.infer<typeof COLOR_SCHEME_DIFF_INPUT>) {
     try {
-      const { refresh = false } = args;
+      const skin = resolveSkinName(args.skin, this.defaultSkin);
+      let tokens = await this.tokenExtractor.getColorSchemeDiff(skin);
 
-      if (refresh) {
-        console.log("Cache refresh solicitado");
+      if (args.search) {
+        const term = args.search.toLowerCase();
+        tokens = tokens.filter((token) =>
+          token.name.toLowerCase().includes(term)
+        );
       }
 
-      const allComponents = await this.misticaScraper.getAllComponents();
+      const changes = tokens.map((token) => ({
+        name: token.name,
+        light: token.modes!.light,
+        dark: token.modes!.dark,
+      }));
+
+      let message = `Tokens que mudam no modo escuro - ${MISTICA_SKINS[skin].label}\n\n`;
+
+      if (changes.length === 0) {
+        message += "Nenhum token com valor diferente no modo escuro\n";
+      }
+
+      changes.forEach((change) => {
+        message += `- ${change.name}: ${change.light} → ${change.dark}\n`;
+      });
+
+      return {
+        skin,
+        total_tokens: changes.length,
+        changes,
+        message,
+      };
+    } catch (error: any) {
+      return { error: `Erro ao comparar modos de cor: ${error.message}` };
+    }
+  }
+
+  async compareVersions(args: z.infer<typeof COMPARE_VERSIONS_INPUT>) {
+    const { fromVersion, toVersion } = args;
+
+    try {
+      const changelog = await this.buildChangelog(fromVersion, toVersion);
+
+      return {
+        changelog,
+        message: this.formatChangelog(changelog),
+      };
+    } catch (error: any) {
+      const available = await this.versionRepository.listVersions();
+      return {
+        error: `Erro ao comparar versões: ${error.message}`,
+        versionsDir: this.versionRepository.getVersionsDir(),
+        availableVersions: available.map((v) => v.version),
+      };
+    }
+  }
+
+  async generateCodemod(args: z.infer<typeof GENERATE_CODEMOD_INPUT>) {
+    const { fromVersion, toVersion, code } = args;
+
+    try {
+      const changelog = await this.buildChangelog(fromVersion, toVersion);
+      const rules = this.codemodGenerator.buildRules(changelog);
+      const transform = this.codemodGenerator.generateTransform(rules);
+      const preview = code
+        ? this.codemodGenerator.preview(code, rules)
+        : undefined;
+
+      let message = `Codemod Mística ${rules.fromVersion} → ${rules.toVersion}\n\n`;
+      if (!this.codemodGenerator.hasMechanicalChanges(rules)) {
+        message +=
+          "Nenhuma mudança mecânica detectada (renomeações ou props booleanas removidas)\n\n";
+      }
+
+      message += "Transform jscodeshift (salve como mistica-codemod.js):\n";
+      message += "```js\n" + transform + "```\n\n";
+
+      if (preview) {
+        message += `Pré-visualização (${preview.changes.length} alterações):\n`;
+        preview.changes.forEach((change) => {
+          message += `- [${change.kind}] linha ${change.position.line}, coluna ${change.position.column}: ${change.description}\n`;
+        });
+        if (preview.syntaxErrors.length > 0) {
+          message += `\nO snippet contém ${preview.syntaxErrors.length} erro(s) de sintaxe; o resultado pode estar incompleto\n`;
+        }
+        message += "\n```diff\n" + preview.diff + "\n```\n\n";
+      }
+
+      if (rules.manualReview.length > 0) {
+        message += `Revisão manual necessária (${rules.manualReview.length}):\n`;
+        rules.manualReview.forEach((note) => (message += `- ${note}\n`));
+      }
+
+      return {
+        rules,
+        transform,
+        preview,
+        message,
+      };
+    } catch (error: any) {
+      const available = await this.versionRepository.listVersions();
+      return {
+        error: `Erro ao gerar codemod: ${error.message}`,
+        versionsDir: this.versionRepository.getVersionsDir(),
+        availableVersions: available.map((v) => v.version),
+      };
+    }
+  }
+
+  async validateUsage(args: z.infer<typeof VALIDATE_USAGE_INPUT>) {
+    const { code } = args;
+
+    try {
+      // Com catálogo congelado, valida contra os exports npm registrados nele
+      const components = this.catalog
+        ? (await this.catalog.getComponents()).filter((c) => c.npmInfo)
+        : await this.npmAnalyzer.getAllComponents();
+      const result = this.usageValidator.validate(code, components);
+      const errors = result.issues.filter((i) => i.severity === "error");
+      const warnings = result.issues.filter((i) => i.severity === "warning");
+
+      let message = `Validação de uso do Mística: ${result.checkedElements} elementos verificados\n\n`;
+      if (result.issues.length === 0) {
+        message += "Nenhum problema encontrado\n";
+      } else {
+        message += `${errors.length} erro(s), ${warnings.length} aviso(s)\n\n`;
+        result.issues.forEach((issue) => {
+          const icon = issue.severity === "error" ? "❌" : "⚠️";
+          message += `${icon} ${issue.position.line}:${issue.position.column} [${issue.rule}] ${issue.message}\n`;
+          if (issue.suggestion) {
+            message += `   ${issue.suggestion}\n`;
+          }
+        });
+      }
+
+      return {
+        valid: result.valid,
+        checkedElements: result.checkedElements,
+        issues: result.issues,
+        message,
+      };
+    } catch (error: any) {
+      return { error: `Erro ao validar uso do Mística: ${error.message}` };
+    }
+  }
+
+  async lintStyles(args: z.infer<typeof LINT_STYLES_INPUT>) {
+    const { code, minConfidence } = args;
+
+    try {
+      const skin = resolveSkinName(args.skin, this.defaultSkin);
+      const tokens = await this.tokenExtractor.getAllTokens(skin);
+      const findings = this.styleLinter
+        .lint(code, tokens)
+        .filter((finding) => finding.confidence >= minConfidence);
+
+      let message = `Estilos fixos encontrados - ${MISTICA_SKINS[skin].label}\n\n`;
+      if (findings.length === 0) {
+        message += "Nenhum estilo fixo encontrado\n";
+      }
+      findings.forEach((finding) => {
+        message += `- ${finding.position.line}:${finding.position.column} ${finding.property}: ${finding.value} → ${finding.suggestion} (confiança ${Math.round(finding.confidence * 100)}%)\n`;
+        if (finding.alternatives) {
+          message += `  Alternativas: ${finding.alternatives.join(", ")}\n`;
+        }
+      });
+
+      return {
+        skin,
+        total_findings: findings.length,
+        findings,
+        message,
+      };
+    } catch (error: any) {
+      return { error: `Erro ao analisar estilos: ${error.message}` };
+    }
+  }
+
+  private async buildChangelog(
+    fromVersion: string,
+    toVersion: string
+  ): Promise<MisticaChangelog> {
+    const from = await this.versionRepository.resolveVersion(fromVersion);
+    const to = await this.versionRepository.resolveVersion(toVersion);
+
+    const [fromComponents, toComponents] = await Promise.all([
+      this.versionRepository.getComponents(from),
+      this.versionRepository.getComponents(to),
+    ]);
+
+    return this.versionComparator.compare(
+      from.version,
+      fromComponents,
+      to.version,
+      toComponents
+    );
+  }
+
+  private formatChangelog(changelog: MisticaChangelog): string {
+    const { summary } = changelog;
+    let message = `Migração Mística ${changelog.fromVersion} → ${changelog.toVersion}\n\n`;
+    message += `${summary.breaking ? "Contém breaking changes" : "Sem breaking changes detectadas"}\n\n`;
+
+    if (changelog.removedExports.length > 0) {
+      message += `Exports removidos (${summary.removedExports}):\n`;
+      changelog.removedExports.forEach((name) => (message += `- ${name}\n`));
+      message += "\n";
+    }
+    if (changelog.renamedExports.length > 0) {
+      message += `Exports renomeados (${summary.renamedExports}):\n`;
+      changelog.renamedExports.forEach(
+        (r) => (message += `- ${r.from} → ${r.to} (${r.reason})\n`)
+      );
+      message += "\n";
+    }
+    if (changelog.addedExports.length > 0) {
+      message += `Exports adicionados (${summary.addedExports}):\n`;
+      changelog.addedExports.forEach((name) => (message += `- ${name}\n`));
+      message += "\n";
+    }
+    if (changelog.componentChanges.length > 0) {
+      message += `Componentes com props alteradas (${summary.changedComponents}):\n`;
+      changelog.componentChanges.forEach((change) => {
+        message += `- ${change.component}\n`;
+        change.renamedProps.forEach(
+          (r) => (message += `  • prop renomeada: ${r.from} → ${r.to}\n`)
+        );
+        change.removedProps.forEach(
+          (p) => (message += `  • prop removida: ${p}\n`)
+        );
+        change.newlyRequiredProps.forEach(
+          (p) => (message += `  • prop agora obrigatória: ${p}\n`)
+        );
+        change.typeChanges.forEach(
+          (t) => (message += `  • tipo de ${t.prop}: ${t.from} → ${t.to}\n`)
+        );
+        change.addedProps.forEach(
+          (p) => (message += `  • prop adicionada: ${p}\n`)
+        );
+      });
+      message += "\n";
+    }
+    if (changelog.newlyDeprecated.length > 0) {
+      message += `Novas depreciações (${summary.newlyDeprecated}):\n`;
+      changelog.newlyDeprecated.forEach((d) => {
+        const target = d.prop ? `${d.component}.${d.prop}` : d.component;
+        message += `- ${target}: ${d.message}\n`;
+      });
+    }
+
+    return message;
+  }
+
+  async getCacheStatus(args: z.infer<typeof CACHE_STATUS_INPUT>) {
+    try {
+      const { key, source } = args;
+      const action = args.refresh ? "refresh" : args.action;
+      let invalidated: string[] = [];
+      let refreshed = false;
+
+      if (action === "invalidate") {
+        if (!key && !source) {
+          return { error: "Informe key ou source para invalidar o cache" };
+        }
+        invalidated = await this.invalidateCacheKeys(key, source);
+      }
+
+      if (action === "clear") {
+        invalidated = await this.cache.getKeys();
+        await this.cache.clear();
+      }
+
+      if (action === "refresh" && !this.catalog) {
+        // Análise npm e tokens são refeitas; versões publicadas não mudam
+        invalidated = await this.invalidateCacheKeys(undefined, "tokens");
+        for (const npmKey of ["npm_components", "npm_icons"]) {
+          invalidated.push(...(await this.invalidateCacheKeys(npmKey)));
+        }
+        await this.misticaScraper.forceRefresh();
+        refreshed = true;
+      }
+
+      // Ações destrutivas não disparam nova descoberta
+      const allComponents =
+        action === "invalidate" || action === "clear"
+          ? await this.misticaScraper.getCachedComponents()
+          : await this.misticaScraper.getAllComponents();
+      const status = await this.misticaScraper.getCatalogStatus();
+      const stats = await this.cache.getStats();
+      const entries = await this.cache.getEntries();
+      const checkedAt = new Date();
+
+      const freshnessLabels = {
+        fresh: "atualizado",
+        stale: "expirado (servindo a versão anterior)",
+        refreshing: "expirado, atualizando em segundo plano",
+      };
 
       let message = "Status do Cache MCP Mística\n\n";
-      message += `Cache ativo: ${allComponents.length} componentes carregados\n`;
-      message += `Última atualização: ${new Date().toLocaleString("pt-BR")}\n`;
-      message += `Refresh: ${refresh ? "Executado" : "Não solicitado"}\n\n`;
+      message += `Backend: ${stats.backend}${stats.location ? ` (${stats.location})` : ""}\n`;
+      if (stats.namespace) {
+        message += `Namespace: ${stats.namespace}\n`;
+      }
+      message += `Entradas: ${stats.totalEntries} (${this.formatBytes(stats.totalSize)})\n`;
+      message += `Memória: ${stats.memoryEntries} entradas (${this.formatBytes(stats.memorySize)})\n`;
+      const reads = stats.hits + stats.misses;
+      message += `Leituras: ${stats.hits} hits, ${stats.misses} misses`;
+      message += reads > 0 ? ` (${Math.round((stats.hits / reads) * 100)}% hits)\n\n` : "\n\n";
+
+      message += `Catálogo: ${allComponents.length} componentes\n`;
+      message += `Estado: ${freshnessLabels[status.freshness]}\n`;
+      message += `Fontes: ${status.sources.length > 0 ? status.sources.join(", ") : "nenhuma"}\n`;
+      if (status.updatedAt) {
+        message += `Última atualização: ${status.updatedAt.toLocaleString("pt-BR")}\n`;
+      }
+      if (status.expiresAt) {
+        message += `Expira em: ${status.expiresAt.toLocaleString("pt-BR")}\n`;
+      }
+
+      if (action === "refresh") {
+        message += this.catalog
+          ? "Refresh: catálogo congelado (--catalog), nada a atualizar\n"
+          : "Refresh: catálogo redescoberto\n";
+      }
+      if (action === "invalidate" || action === "clear") {
+        message += `Removidas: ${invalidated.length > 0 ? invalidated.join(", ") : "nenhuma entrada"}\n`;
+      }
+
+      if (entries.length > 0) {
+        message += "\nEntradas:\n";
+        entries.forEach((entry) => {
+          message += `- ${entry.key}: ${this.formatBytes(entry.size)}, expira ${entry.expiry.toLocaleString("pt-BR")}${entry.stale ? " (vencida)" : ""}\n`;
+        });
+      }
 
       const categoryStats = allComponents.reduce((acc, comp) => {
         acc[comp.category] = (acc[comp.category] || 0) + 1;
         return acc;
       }, {} as Record<string, number>);
 
-      message += "Estatísticas por categoria:\n";
-      Object.entries(categoryStats).forEach(([category, count]) => {
-        message += `- ${category}: ${count} componentes\n`;
-      });
+      if (allComponents.length > 0) {
+        message += "\nEstatísticas por categoria:\n";
+        Object.entries(categoryStats).forEach(([category, count]) => {
+          message += `- ${category}: ${count} componentes\n`;
+        });
+      }
 
-      return { message };
+      return {
+        action,
+        components_loaded: allComponents.length,
+        categories: categoryStats,
+        refreshed,
+        invalidated,
+        sources: status.sources,
+        freshness: status.freshness,
+        updatedAt: status.updatedAt?.toISOString(),
+        expiresAt: status.expiresAt?.toISOString(),
+        checkedAt: checkedAt.toISOString(),
+        cache: {
+          backend: stats.backend,
+          location: stats.location,
+          namespace: stats.namespace,
+          totalEntries: stats.totalEntries,
+          totalSize: stats.totalSize,
+          hits: stats.hits,
+          misses: stats.misses,
+          memoryEntries: stats.memoryEntries,
+          memorySize: stats.memorySize,
+          oldestEntry: stats.oldestEntry?.toISOString(),
+          newestEntry: stats.newestEntry?.toISOString(),
+        },
+        entries: entries.map((entry) => ({
+          key: entry.key,
+          size: entry.size,
+          updatedAt: entry.timestamp.toISOString(),
+          expiresAt: entry.expiry.toISOString(),
+          stale: entry.stale,
+        })),
+        message,
+      };
     } catch (error: any) {
       return { error: `Erro ao obter status do cache: ${error.message}` };
     }
   }
 
-  async exploreCategories(args: any) {
+  /**
+   * Remove uma chave exata e/ou todas as chaves de uma fonte; devolve as
+   * chaves que existiam
+   */
+  private async invalidateCacheKeys(
+    key?: string,
+    source?: CacheSourceName
+  ): Promise<string[]> {
+    const keys = await this.cache.getKeys();
+    const pattern = source ? CACHE_SOURCE_KEYS[source] : undefined;
+    const targets = keys.filter(
+      (candidate) => candidate === key || (pattern && pattern.test(candidate))
+    );
+
+    for (const target of targets) {
+      await this.cache.delete(target);
+    }
+    return targets;
+  }
+
+  private formatBytes(bytes: number): string {
+    if (bytes < 1024) return `${bytes} B`;
+    if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+    return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  }
+
+  async exploreCategories(args: z.infer<typeof EXPLORE_CATEGORIES_INPUT>) {
     try {
-      const { category, includeDetails = false } = args;
+      const { category, includeDetails } = args;
       const allComponents = await this.misticaScraper.getAllComponents();
 
       const filteredComponents = allComponents.filter(
@@ -662,6 +1233,10 @@ export class MisticaTools {
         message += `Use includeDetails: true para ver descrições detalhadas`;
       }
 
+      if (category === "icons") {
+        message += `\n\nOs ícones individuais (IconXxxRegular/Light/Filled) ficam em search_mistica_icons`;
+      }
+
       return {
         category,
         total_components: filteredComponents.length,
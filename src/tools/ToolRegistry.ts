@@ -0,0 +1,95 @@
+import { z } from "zod";
+import { zodToJsonSchema } from "zod-to-json-schema";
+import { ErrorCode, McpError } from "@modelcontextprotocol/sdk/types.js";
+import type { JsonObjectSchema, Tool } from "../types/interfaces.js";
+
+/**
+ * 🗂️ ToolRegistry - Registro único das ferramentas MCP
+ *
+ * Responsabilidade: Guardar cada ferramenta uma única vez (nome, descrição,
+ * schema zod de entrada, outputSchema e handler), gerar o JSON Schema
+ * publicado no `tools/list`, validar os argumentos antes da execução e
+ * despachar pelo nome, para que nomes, schemas e dispatch não divirjam.
+ */
+
+export interface ToolDefinition<Input extends z.AnyZodObject = z.AnyZodObject> {
+  name: string;
+  description: string;
+  input: Input;
+  outputSchema?: JsonObjectSchema;
+  handler: (args: z.infer<Input>) => Promise<Record<string, unknown>>;
+}
+
+// Ferramenta já registrada: o `run` valida com o schema da própria
+// definição, então o tipo dos argumentos do handler não se perde no Map
+interface RegisteredTool {
+  tool: Tool;
+  run: (args: unknown) => Promise<Record<string, unknown>>;
+}
+
+export class ToolRegistry {
+  private tools = new Map<string, RegisteredTool>();
+
+  register<Input extends z.AnyZodObject>(definition: ToolDefinition<Input>): this {
+    if (this.tools.has(definition.name)) {
+      throw new Error(`Ferramenta duplicada no registro: ${definition.name}`);
+    }
+    this.tools.set(definition.name, {
+      tool: {
+        name: definition.name,
+        description: definition.description,
+        inputSchema: this.toJsonSchema(definition.input),
+        outputSchema: definition.outputSchema,
+      },
+      run: (args) => {
+        const parsed = definition.input.safeParse(args ?? {});
+        if (!parsed.success) {
+          throw new McpError(
+            ErrorCode.InvalidParams,
+            `Argumentos inválidos para ${definition.name}: ${this.formatIssues(parsed.error)}`
+          );
+        }
+        return definition.handler(parsed.data);
+      },
+    });
+    return this;
+  }
+
+  has(name: string): boolean {
+    return this.tools.has(name);
+  }
+
+  list(): Tool[] {
+    return [...this.tools.values()].map(({ tool }) => tool);
+  }
+
+  /**
+   * Valida os argumentos com o schema da ferramenta e executa o handler.
+   * Ferramenta desconhecida ou argumentos inválidos geram McpError
+   * (InvalidParams), devolvido ao cliente como erro de protocolo.
+   */
+  async execute(name: string, args: unknown): Promise<Record<string, unknown>> {
+    const registered = this.tools.get(name);
+    if (!registered) {
+      throw new McpError(ErrorCode.InvalidParams, `Ferramenta não encontrada: ${name}`);
+    }
+    return registered.run(args);
+  }
+
+  private toJsonSchema(input: z.AnyZodObject): JsonObjectSchema {
+    const { $schema, ...schema } = zodToJsonSchema(input, {
+      $refStrategy: "none",
+    });
+    return { ...schema, type: "object" };
+  }
+
+  private formatIssues(error: z.ZodError): string {
+    return error.issues
+      .map((issue) =>
+        issue.path.length > 0
+          ? `${issue.path.join(".")}: ${issue.message}`
+          : issue.message
+      )
+      .join("; ");
+  }
+}
@@ -0,0 +1,231 @@
+/**
+ * 📥 Input schemas - Argumentos aceitos por cada ferramenta
+ *
+ * Responsabilidade: Declarar (zod) os argumentos de entrada das ferramentas
+ * em constantes de módulo, para que os handlers de MisticaTools sejam
+ * tipados com `z.infer<typeof SCHEMA>` a partir da mesma fonte que gera o
+ * JSON Schema do `tools/list` e valida as chamadas.
+ */
+
+import { z } from "zod";
+import { INSTALLED_VERSION } from "../scraper/MisticaVersionRepository.js";
+import type { MisticaSkinName } from "../types/mistica.js";
+import { SKIN_NAMES } from "../utils/skins.js";
+
+// Fontes do cache que podem ser invalidadas em bloco
+export const CACHE_SOURCE_NAMES = [
+  "components",
+  "npm",
+  "icons",
+  "tokens",
+  "versions",
+] as const;
+
+export type CacheSourceName = (typeof CACHE_SOURCE_NAMES)[number];
+
+// Nomes de skin não diferenciam maiúsculas (ex: "Vivo"). A descrição ganha
+// a skin padrão do servidor no registro (MisticaTools)
+export const SKIN_SCHEMA = z
+  .preprocess(
+    (value) => (typeof value === "string" ? value.toLowerCase().trim() : value),
+    z.enum(SKIN_NAMES as [MisticaSkinName, ...MisticaSkinName[]]).optional()
+  )
+  .describe("Skin (marca) usada para resolver tokens e snippets de tema.");
+
+const COLOR_SCHEME = z.enum(["light", "dark"]).default("light");
+
+export const SEARCH_COMPONENTS_INPUT = z.object({
+  query: z
+    .string()
+    .trim()
+    .min(1)
+    .describe(
+      'Termo ou conceito para buscar (ex: "button", "card", "form", "icon")'
+    ),
+});
+
+export const MAP_FIGMA_INPUT = z.object({
+  figmaCode: z
+    .string()
+    .min(1)
+    .describe("Código React/HTML gerado pelo Figma para análise e mapeamento"),
+  includeRefactoring: z
+    .boolean()
+    .default(true)
+    .describe("Incluir sugestões de refatoração usando componentes do Mística"),
+  skin: SKIN_SCHEMA,
+});
+
+export const LIST_COMPONENTS_INPUT = z.object({
+  category: z
+    .enum([
+      "components",
+      "layout",
+      "icons",
+      "utilities",
+      "hooks",
+      "community",
+      "lab",
+      "feedback",
+    ])
+    .optional()
+    .describe("Filtrar por categoria específica"),
+  includeCount: z
+    .boolean()
+    .default(true)
+    .describe("Incluir contagem de componentes por categoria"),
+});
+
+export const COMPONENT_DOCS_INPUT = z.object({
+  component: z
+    .string()
+    .trim()
+    .min(1)
+    .describe(
+      'ID (ex: "npm-components-avatar"), nome ou nome aproximado do componente'
+    ),
+  skin: SKIN_SCHEMA,
+});
+
+export const ICON_SEARCH_INPUT = z.object({
+  query: z
+    .string()
+    .trim()
+    .min(1)
+    .describe('Nome ou conceito do ícone (ex: "trash", "chevron right")'),
+  weight: z
+    .enum(["regular", "light", "filled"])
+    .optional()
+    .describe("Peso do ícone. Padrão: regular quando disponível"),
+  limit: z
+    .number()
+    .int()
+    .min(1)
+    .max(50)
+    .default(10)
+    .describe("Número máximo de ícones retornados"),
+});
+
+export const USAGE_EXAMPLES_INPUT = z.object({
+  componentName: z
+    .string()
+    .min(1)
+    .describe("Nome do componente para obter exemplos"),
+  variant: z
+    .string()
+    .optional()
+    .describe("Variante específica do componente (se aplicável)"),
+  format: z
+    .enum(["react", "html", "both"])
+    .default("react")
+    .describe("Formato do exemplo de código"),
+  includeAdvanced: z
+    .boolean()
+    .default(false)
+    .describe("Incluir exemplos avançados (composição, acessibilidade, tema)"),
+  skin: SKIN_SCHEMA,
+  colorScheme: COLOR_SCHEME.describe(
+    "Modo de cor usado nos valores dos tokens da skin"
+  ),
+});
+
+export const DESIGN_TOKENS_INPUT = z.object({
+  category: z
+    .enum(["color", "spacing", "typography", "shadow", "border", "other"])
+    .optional()
+    .describe("Categoria dos tokens"),
+  search: z
+    .string()
+    .optional()
+    .describe("Buscar tokens específicos por nome"),
+  skin: SKIN_SCHEMA,
+  colorScheme: COLOR_SCHEME.describe(
+    "Modo de cor usado para resolver os valores dos tokens"
+  ),
+});
+
+export const COLOR_SCHEME_DIFF_INPUT = z.object({
+  skin: SKIN_SCHEMA,
+  search: z
+    .string()
+    .optional()
+    .describe('Filtrar tokens por nome (ex: "backgroundContainer")'),
+});
+
+export const COMPARE_VERSIONS_INPUT = z.object({
+  fromVersion: z.string().min(1).describe('Versão de origem (ex: "15.4.0")'),
+  toVersion: z
+    .string()
+    .default(INSTALLED_VERSION)
+    .describe(
+      `Versão de destino. Use "${INSTALLED_VERSION}" para o pacote instalado`
+    ),
+});
+
+export const GENERATE_CODEMOD_INPUT = COMPARE_VERSIONS_INPUT.extend({
+  code: z
+    .string()
+    .optional()
+    .describe("Snippet TSX opcional para pré-visualizar (dry-run) o codemod"),
+});
+
+export const VALIDATE_USAGE_INPUT = z.object({
+  code: z
+    .string()
+    .min(1)
+    .describe("Código TSX que importa componentes de @telefonica/mistica"),
+});
+
+export const LINT_STYLES_INPUT = z.object({
+  code: z.string().min(1).describe("Snippet TSX ou CSS a ser analisado"),
+  minConfidence: z
+    .number()
+    .min(0)
+    .max(1)
+    .default(0)
+    .describe("Confiança mínima (0 a 1) das sugestões retornadas"),
+  skin: SKIN_SCHEMA,
+});
+
+export const CACHE_STATUS_INPUT = z.object({
+  action: z
+    .enum(["status", "refresh", "invalidate", "clear"])
+    .default("status")
+    .describe(
+      "status: apenas inspeciona; refresh: redescobre o catálogo agora; invalidate: remove uma chave ou fonte; clear: esvazia o cache"
+    ),
+  key: z
+    .string()
+    .optional()
+    .describe("Chave a remover (action=invalidate)"),
+  source: z
+    .enum(CACHE_SOURCE_NAMES)
+    .optional()
+    .describe(
+      "Fonte a remover (action=invalidate): components (catálogo combinado npm + Storybook), npm, icons, tokens ou versions"
+    ),
+  refresh: z
+    .boolean()
+    .default(false)
+    .describe("Equivale a action=refresh"),
+});
+
+export const EXPLORE_CATEGORIES_INPUT = z.object({
+  category: z
+    .enum([
+      "components",
+      "layout",
+      "icons",
+      "utilities",
+      "hooks",
+      "feedback",
+      "patterns",
+      "community",
+      "msticalab",
+    ])
+    .describe("Categoria para explorar"),
+  includeDetails: z
+    .boolean()
+    .default(false)
+    .describe("Incluir detalhes sobre cada componente"),
+});
@@ -0,0 +1,482 @@
+/**
+ * 🧾 Output schemas - Formato do `structuredContent` de cada ferramenta
+ *
+ * Responsabilidade: Declarar (JSON Schema) os dados estruturados devolvidos
+ * pelas ferramentas, para que os clientes consumam listas de componentes,
+ * props e sugestões sem interpretar o texto. O campo `message` não faz
+ * parte do conteúdo estruturado: ele vira o texto legível da resposta.
+ */
+
+import type { JsonObjectSchema } from "../types/interfaces.js";
+
+const STRING = { type: "string" };
+const NUMBER = { type: "number" };
+const BOOLEAN = { type: "boolean" };
+const STRING_ARRAY = { type: "array", items: STRING };
+
+function objectSchema(
+  properties: Record<string, unknown>,
+  required: string[] = []
+): JsonObjectSchema {
+  return { type: "object", properties, required };
+}
+
+const POSITION = objectSchema({ line: NUMBER, column: NUMBER }, ["line", "column"]);
+
+const DEPRECATION = objectSchema(
+  { message: STRING, replacement: STRING },
+  ["message"]
+);
+
+const COMPONENT_SUMMARY = objectSchema(
+  {
+    name: STRING,
+    category: STRING,
+    description: STRING,
+    deprecation: DEPRECATION,
+  },
+  ["name", "category", "description"]
+);
+
+const RENAMED_ITEM = objectSchema(
+  { from: STRING, to: STRING, reason: STRING },
+  ["from", "to"]
+);
+
+const CHANGELOG = objectSchema(
+  {
+    fromVersion: STRING,
+    toVersion: STRING,
+    addedExports: STRING_ARRAY,
+    removedExports: STRING_ARRAY,
+    renamedExports: { type: "array", items: RENAMED_ITEM },
+    componentChanges: {
+      type: "array",
+      items: objectSchema(
+        {
+          component: STRING,
+          addedProps: STRING_ARRAY,
+          removedProps: STRING_ARRAY,
+          removedPropTypes: { type: "object", additionalProperties: STRING },
+          renamedProps: { type: "array", items: RENAMED_ITEM },
+          newlyRequiredProps: STRING_ARRAY,
+          typeChanges: {
+            type: "array",
+            items: objectSchema({ prop: STRING, from: STRING, to: STRING }),
+          },
+        },
+        ["component"]
+      ),
+    },
+    newlyDeprecated: {
+      type: "array",
+      items: objectSchema(
+        { component: STRING, prop: STRING, message: STRING, replacement: STRING },
+        ["component", "message"]
+      ),
+    },
+    summary: objectSchema({
+      addedExports: NUMBER,
+      removedExports: NUMBER,
+      renamedExports: NUMBER,
+      changedComponents: NUMBER,
+      newlyRequiredProps: NUMBER,
+      typeChanges: NUMBER,
+      newlyDeprecated: NUMBER,
+      breaking: BOOLEAN,
+    }),
+  },
+  ["fromVersion", "toVersion", "summary"]
+);
+
+const DESIGN_TOKEN = objectSchema(
+  {
+    name: STRING,
+    value: STRING,
+    category: STRING,
+    description: STRING,
+    modes: objectSchema({ light: STRING, dark: STRING }),
+    skin: STRING,
+  },
+  ["name", "value", "category"]
+);
+
+export const SEARCH_COMPONENTS_OUTPUT = objectSchema(
+  {
+    query: STRING,
+    total_found: NUMBER,
+    components: { type: "array", items: COMPONENT_SUMMARY },
+    deprecated: {
+      type: "array",
+      items: objectSchema(
+        { name: STRING, message: STRING, replacement: STRING },
+        ["name"]
+      ),
+    },
+    suggestion: STRING,
+  },
+  ["query", "total_found", "components"]
+);
+
+export const MAP_FIGMA_OUTPUT = objectSchema(
+  {
+    skin: STRING,
+    analysis: objectSchema({
+      elements: { type: "object" },
+      structure: { type: "object" },
+      patterns: { type: "object" },
+    }),
+    suggestions: {
+      type: "array",
+      items: objectSchema(
+        {
+          name: STRING,
+          category: STRING,
+          description: STRING,
+          reason: STRING,
+          score: NUMBER,
+          deprecation: DEPRECATION,
+        },
+        ["name", "category", "reason"]
+      ),
+    },
+    icons: {
+      type: "array",
+      items: objectSchema(
+        {
+          layer: STRING,
+          role: { type: "string", enum: ["asset", "navigation"] },
+          name: STRING,
+          weight: STRING,
+          score: NUMBER,
+        },
+        ["layer", "role", "name", "weight"]
+      ),
+    },
+    refactoring: STRING,
+  },
+  ["skin", "analysis", "suggestions", "icons"]
+);
+
+export const COMPONENT_DOCS_OUTPUT = objectSchema(
+  {
+    matchedBy: { type: "string", enum: ["id", "name", "fuzzy"] },
+    skin: STRING,
+    id: STRING,
+    name: STRING,
+    category: STRING,
+    description: STRING,
+    importPath: STRING,
+    importStatement: STRING,
+    version: STRING,
+    storyUrl: STRING,
+    props: {
+      type: "array",
+      items: objectSchema(
+        {
+          name: STRING,
+          type: STRING,
+          required: BOOLEAN,
+          defaultValue: STRING,
+          description: STRING,
+          deprecation: DEPRECATION,
+        },
+        ["name", "required"]
+      ),
+    },
+    stories: {
+      type: "array",
+      items: objectSchema(
+        {
+          id: STRING,
+          name: STRING,
+          title: STRING,
+          url: STRING,
+          args: { type: "object" },
+        },
+        ["id", "name", "url"]
+      ),
+    },
+    related: STRING_ARRAY,
+    deprecations: objectSchema(
+      {
+        component: DEPRECATION,
+        props: {
+          type: "array",
+          items: objectSchema(
+            { prop: STRING, message: STRING, replacement: STRING },
+            ["prop", "message"]
+          ),
+        },
+      },
+      ["props"]
+    ),
+    tokens: { type: "array", items: DESIGN_TOKEN },
+  },
+  ["matchedBy", "id", "name", "category", "importStatement", "props", "stories", "related", "deprecations", "tokens"]
+);
+
+export const ICON_SEARCH_OUTPUT = objectSchema(
+  {
+    query: STRING,
+    weight: { type: "string", enum: ["regular", "light", "filled"] },
+    total_found: NUMBER,
+    icons: {
+      type: "array",
+      items: objectSchema(
+        {
+          name: STRING,
+          baseName: STRING,
+          weight: STRING,
+          weights: STRING_ARRAY,
+          keywords: STRING_ARRAY,
+          score: NUMBER,
+          importStatement: STRING,
+        },
+        ["name", "baseName", "weight", "weights", "importStatement"]
+      ),
+    },
+  },
+  ["query", "total_found", "icons"]
+);
+
+export const COMPONENT_NAMES_OUTPUT = objectSchema(
+  {
+    category: STRING,
+    total_components: NUMBER,
+    components: STRING_ARRAY,
+  },
+  ["category", "total_components", "components"]
+);
+
+export const USAGE_EXAMPLES_OUTPUT = objectSchema(
+  {
+    component: STRING,
+    deprecation: DEPRECATION,
+    skin: STRING,
+    hasExamples: BOOLEAN,
+    variants: STRING_ARRAY,
+    props: {
+      type: "array",
+      items: objectSchema(
+        {
+          name: STRING,
+          type: { description: "Tipo TypeScript da prop" },
+          required: BOOLEAN,
+          default: { description: "Valor padrão, quando conhecido" },
+          description: STRING,
+          deprecation: DEPRECATION,
+        },
+        ["name", "required"]
+      ),
+    },
+  },
+  ["component", "skin", "variants", "props"]
+);
+
+export const DESIGN_TOKENS_OUTPUT = objectSchema(
+  {
+    skin: STRING,
+    colorScheme: { type: "string", enum: ["light", "dark"] },
+    category: STRING,
+    total_tokens: NUMBER,
+    tokens: { type: "array", items: DESIGN_TOKEN },
+  },
+  ["skin", "colorScheme", "category", "total_tokens", "tokens"]
+);
+
+export const COLOR_SCHEME_DIFF_OUTPUT = objectSchema(
+  {
+    skin: STRING,
+    total_tokens: NUMBER,
+    changes: {
+      type: "array",
+      items: objectSchema({ name: STRING, light: STRING, dark: STRING }, [
+        "name",
+        "light",
+        "dark",
+      ]),
+    },
+  },
+  ["skin", "total_tokens", "changes"]
+);
+
+export const COMPARE_VERSIONS_OUTPUT = objectSchema({ changelog: CHANGELOG }, [
+  "changelog",
+]);
+
+export const GENERATE_CODEMOD_OUTPUT = objectSchema(
+  {
+    rules: objectSchema(
+      {
+        fromVersion: STRING,
+        toVersion: STRING,
+        componentRenames: { type: "object", additionalProperties: STRING },
+        propRenames: {
+          type: "object",
+          additionalProperties: { type: "object", additionalProperties: STRING },
+        },
+        removedBooleanProps: {
+          type: "object",
+          additionalProperties: STRING_ARRAY,
+        },
+        manualReview: STRING_ARRAY,
+      },
+      ["fromVersion", "toVersion"]
+    ),
+    transform: STRING,
+    preview: objectSchema(
+      {
+        output: STRING,
+        diff: STRING,
+        changes: {
+          type: "array",
+          items: objectSchema(
+            {
+              kind: {
+                type: "string",
+                enum: ["component-rename", "prop-rename", "prop-removal", "manual-review"],
+              },
+              description: STRING,
+              position: POSITION,
+            },
+            ["kind", "description", "position"]
+          ),
+        },
+        syntaxErrors: {
+          type: "array",
+          items: objectSchema({ message: STRING, position: POSITION }, ["message"]),
+        },
+      },
+      ["output", "changes", "diff"]
+    ),
+  },
+  ["rules", "transform"]
+);
+
+export const VALIDATE_USAGE_OUTPUT = objectSchema(
+  {
+    valid: BOOLEAN,
+    checkedElements: NUMBER,
+    issues: {
+      type: "array",
+      items: objectSchema(
+        {
+          severity: { type: "string", enum: ["error", "warning"] },
+          rule: {
+            type: "string",
+            enum: [
+              "syntax-error",
+              "unknown-export",
+              "unknown-prop",
+              "missing-required-prop",
+              "invalid-prop-value",
+              "deprecated",
+            ],
+          },
+          component: STRING,
+          prop: STRING,
+          message: STRING,
+          suggestion: STRING,
+          position: POSITION,
+        },
+        ["severity", "rule", "message", "position"]
+      ),
+    },
+  },
+  ["valid", "checkedElements", "issues"]
+);
+
+export const LINT_STYLES_OUTPUT = objectSchema(
+  {
+    skin: STRING,
+    total_findings: NUMBER,
+    findings: {
+      type: "array",
+      items: objectSchema(
+        {
+          kind: {
+            type: "string",
+            enum: ["color", "spacing", "font-size", "border-radius"],
+          },
+          property: STRING,
+          value: STRING,
+          position: POSITION,
+          suggestion: STRING,
+          token: STRING,
+          alternatives: STRING_ARRAY,
+          confidence: NUMBER,
+        },
+        ["kind", "property", "value", "position", "suggestion", "confidence"]
+      ),
+    },
+  },
+  ["skin", "total_findings", "findings"]
+);
+
+const ISO_DATE = { type: "string", description: "Data ISO 8601" };
+
+const CACHE_ENTRY = objectSchema(
+  {
+    key: STRING,
+    size: { type: "number", description: "Bytes serializados" },
+    updatedAt: ISO_DATE,
+    expiresAt: ISO_DATE,
+    stale: BOOLEAN,
+  },
+  ["key", "size", "updatedAt", "expiresAt", "stale"]
+);
+
+export const CACHE_STATUS_OUTPUT = objectSchema(
+  {
+    action: { type: "string", enum: ["status", "refresh", "invalidate", "clear"] },
+    components_loaded: NUMBER,
+    categories: { type: "object", additionalProperties: NUMBER },
+    refreshed: BOOLEAN,
+    invalidated: { ...STRING_ARRAY, description: "Chaves removidas pela ação" },
+    sources: {
+      type: "array",
+      items: { type: "string", enum: ["npm", "storybook", "fallback", "catalog"] },
+      description: "Fontes que produziram o catálogo de componentes",
+    },
+    freshness: {
+      type: "string",
+      enum: ["fresh", "stale", "refreshing"],
+      description: "fresh: dentro do TTL; stale: vencido; refreshing: vencido e em atualização",
+    },
+    updatedAt: { type: "string", description: "Data ISO 8601 da última atualização do catálogo" },
+    expiresAt: { type: "string", description: "Data ISO 8601 de expiração do catálogo" },
+    checkedAt: { type: "string", description: "Data ISO 8601 da consulta" },
+    cache: objectSchema(
+      {
+        backend: { type: "string", enum: ["memory", "file", "sqlite"] },
+        location: STRING,
+        namespace: {
+          type: "string",
+          description: "Versão do schema e do pacote a que as entradas pertencem",
+        },
+        totalEntries: NUMBER,
+        totalSize: { type: "number", description: "Bytes serializados" },
+        hits: NUMBER,
+        misses: NUMBER,
+        memoryEntries: { type: "number", description: "Entradas na camada LRU em memória" },
+        memorySize: { type: "number", description: "Bytes na camada LRU em memória" },
+        oldestEntry: ISO_DATE,
+        newestEntry: ISO_DATE,
+      },
+      ["backend", "totalEntries", "totalSize", "hits", "misses"]
+    ),
+    entries: { type: "array", items: CACHE_ENTRY },
+  },
+  [
+    "action",
+    "components_loaded",
+    "categories",
+    "refreshed",
+    "invalidated",
+    "sources",
+    "freshness",
+    "cache",
+    "entries",
+  ]
+);
@@ -0,0 +1,270 @@
+import http from "node:http";
+import type { IncomingMessage, ServerResponse } from "node:http";
+import { randomUUID } from "node:crypto";
+import os from "node:os";
+import { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import { ErrorCode, isInitializeRequest } from "@modelcontextprotocol/sdk/types.js";
+import type { ServerTransportOptions } from "../utils/serverOptions.js";
+
+/**
+ * 🌐 MisticaHttpServer - Transporte Streamable HTTP para vários clientes
+ *
+ * Responsabilidade: Servir o MCP em `/mcp` a partir de um único processo,
+ * criando um `Server` por sessão (as ferramentas, o scraper e o cache são
+ * compartilhados), expor `/health` e encerrar as sessões de forma limpa.
+ */
+
+const MCP_PATH = "/mcp";
+const HEALTH_PATH = "/health";
+const MAX_BODY_BYTES = 4 * 1024 * 1024;
+const LOOPBACK_HOSTS = ["localhost", "127.0.0.1", "::1"];
+const WILDCARD_HOSTS = ["0.0.0.0", "::"];
+
+class PayloadTooLargeError extends Error {}
+
+/**
+ * Valores aceitos no cabeçalho Host (proteção contra DNS rebinding): o host
+ * configurado e, se ele for loopback ou curinga, os nomes locais. Em
+ * `0.0.0.0`/`::` entram também os endereços das interfaces de rede.
+ */
+function getAllowedHosts({ host, port }: ServerTransportOptions): string[] {
+  const names = new Set<string>();
+  if (!WILDCARD_HOSTS.includes(host)) {
+    names.add(host);
+  }
+  if (LOOPBACK_HOSTS.includes(host) || WILDCARD_HOSTS.includes(host)) {
+    LOOPBACK_HOSTS.forEach((name) => names.add(name));
+  }
+  if (WILDCARD_HOSTS.includes(host)) {
+    names.add(os.hostname());
+    for (const addresses of Object.values(os.networkInterfaces())) {
+      addresses?.forEach(({ address }) => names.add(address));
+    }
+  }
+
+  return [...names].map((name) => (name.includes(":") ? `[${name}]:${port}` : `${name}:${port}`));
+}
+
+interface HttpSession {
+  server: Server;
+  transport: StreamableHTTPServerTransport;
+  lastActivity: number;
+}
+
+export class MisticaHttpServer {
+  private createServer: () => Server;
+  private options: ServerTransportOptions;
+  private sessions = new Map<string, HttpSession>();
+  private httpServer: http.Server;
+  private sweepTimer?: NodeJS.Timeout;
+  private startedAt = Date.now();
+  private allowedHosts: string[];
+  private allowedOrigins: string[];
+
+  constructor(createServer: () => Server, options: ServerTransportOptions) {
+    this.createServer = createServer;
+    this.options = options;
+    this.allowedHosts = getAllowedHosts(options);
+    this.allowedOrigins = this.allowedHosts.map((host) => `http://${host}`);
+    this.httpServer = http.createServer((req, res) => {
+      this.handleRequest(req, res).catch((error) => {
+        console.error("❌ Erro ao processar requisição HTTP:", error);
+        if (!res.headersSent) {
+          this.sendJsonRpcError(res, 500, ErrorCode.InternalError, "Erro interno do servidor");
+        }
+      });
+    });
+  }
+
+  listen(): Promise<void> {
+    return new Promise((resolve, reject) => {
+      this.httpServer.once("error", reject);
+      this.httpServer.listen(this.options.port, this.options.host, () => {
+        this.httpServer.off("error", reject);
+        this.startSessionSweep();
+        console.error(
+          `🌐 Streamable HTTP em http://${this.options.host}:${this.options.port}${MCP_PATH}`
+        );
+        resolve();
+      });
+    });
+  }
+
+  /**
+   * Para de aceitar conexões, encerra todas as sessões e fecha os streams
+   * SSE abertos
+   */
+  async close(): Promise<void> {
+    if (this.sweepTimer) {
+      clearInterval(this.sweepTimer);
+    }
+
+    const closing = new Promise<void>((resolve) => this.httpServer.close(() => resolve()));
+
+    for (const [sessionId, session] of this.sessions) {
+      await this.closeSession(sessionId, session);
+    }
+    this.httpServer.closeAllConnections();
+
+    await closing;
+  }
+
+  private async handleRequest(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const url = new URL(req.url || "/", `http://${req.headers.host || "localhost"}`);
+
+    if (url.pathname === HEALTH_PATH && req.method === "GET") {
+      this.sendJson(res, 200, {
+        status: "ok",
+        transport: "streamable-http",
+        sessions: this.sessions.size,
+        uptimeSeconds: Math.round((Date.now() - this.startedAt) / 1000),
+      });
+      return;
+    }
+
+    if (url.pathname !== MCP_PATH) {
+      this.sendJson(res, 404, { error: `Rota não encontrada: ${url.pathname}` });
+      return;
+    }
+
+    // O transporte do SDK exige o Origin quando allowedOrigins é informado,
+    // o que barraria clientes fora do navegador; aqui ele só é validado
+    // quando presente
+    const origin = req.headers.origin;
+    if (origin && !this.allowedOrigins.includes(origin)) {
+      this.sendJsonRpcError(res, 403, ErrorCode.InvalidRequest, `Origin não permitido: ${origin}`);
+      return;
+    }
+
+    let body: unknown;
+    if (req.method === "POST") {
+      try {
+        body = await this.readJsonBody(req);
+      } catch (error: any) {
+        if (error instanceof PayloadTooLargeError) {
+          // Fecha a conexão depois da resposta: o restante do corpo não é lido
+          res.setHeader("Connection", "close");
+          this.sendJsonRpcError(res, 413, ErrorCode.InvalidRequest, error.message);
+          return;
+        }
+        this.sendJsonRpcError(res, 400, ErrorCode.ParseError, error.message);
+        return;
+      }
+    }
+
+    const sessionId = req.headers["mcp-session-id"];
+    if (typeof sessionId === "string") {
+      const session = this.sessions.get(sessionId);
+      if (!session) {
+        this.sendJsonRpcError(res, 404, ErrorCode.InvalidRequest, `Sessão não encontrada: ${sessionId}`);
+        return;
+      }
+      session.lastActivity = Date.now();
+      await session.transport.handleRequest(req, res, body);
+      return;
+    }
+
+    if (req.method === "POST" && isInitializeRequest(body)) {
+      await this.startSession(req, res, body);
+      return;
+    }
+
+    this.sendJsonRpcError(
+      res,
+      400,
+      ErrorCode.InvalidRequest,
+      "Cabeçalho mcp-session-id ausente. Inicie a sessão com uma requisição initialize"
+    );
+  }
+
+  private async startSession(req: IncomingMessage, res: ServerResponse, body: unknown): Promise<void> {
+    const server = this.createServer();
+    const transport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      enableDnsRebindingProtection: true,
+      allowedHosts: this.allowedHosts,
+      onsessioninitialized: (sessionId) => {
+        this.sessions.set(sessionId, { server, transport, lastActivity: Date.now() });
+        console.error(`🔌 Sessão iniciada: ${sessionId} (${this.sessions.size} ativas)`);
+      },
+    });
+
+    // Encerrada pelo cliente (DELETE) ou pelo próprio servidor
+    transport.onclose = () => {
+      if (transport.sessionId && this.sessions.delete(transport.sessionId)) {
+        console.error(`🔌 Sessão encerrada: ${transport.sessionId} (${this.sessions.size} ativas)`);
+      }
+    };
+
+    await server.connect(transport);
+    await transport.handleRequest(req, res, body);
+  }
+
+  private async closeSession(sessionId: string, session: HttpSession): Promise<void> {
+    this.sessions.delete(sessionId);
+    try {
+      await session.server.close();
+    } catch (error) {
+      console.error(`⚠️ Erro ao encerrar sessão ${sessionId}:`, error);
+    }
+  }
+
+  /**
+   * Remove sessões abandonadas por clientes que não enviaram DELETE
+   */
+  private startSessionSweep(): void {
+    const ttlMs = this.options.sessionTtlMinutes * 60 * 1000;
+    this.sweepTimer = setInterval(() => {
+      const now = Date.now();
+      for (const [sessionId, session] of this.sessions) {
+        if (now - session.lastActivity > ttlMs) {
+          console.error(`⏱️ Sessão expirada por inatividade: ${sessionId}`);
+          void this.closeSession(sessionId, session);
+        }
+      }
+    }, Math.min(ttlMs, 60 * 1000));
+    this.sweepTimer.unref();
+  }
+
+  private readJsonBody(req: IncomingMessage): Promise<unknown> {
+    return new Promise((resolve, reject) => {
+      const chunks: Buffer[] = [];
+      let size = 0;
+
+      const onData = (chunk: Buffer) => {
+        size += chunk.length;
+        if (size > MAX_BODY_BYTES) {
+          // Sem destroy(): a conexão continua aberta para a resposta 413
+          req.off("data", onData);
+          req.resume();
+          reject(new PayloadTooLargeError("Corpo da requisição excede o limite de 4MB"));
+          return;
+        }
+        chunks.push(chunk);
+      };
+      req.on("data", onData);
+      req.on("end", () => {
+        try {
+          resolve(JSON.parse(Buffer.concat(chunks).toString("utf-8")));
+        } catch {
+          reject(new Error("JSON inválido no corpo da requisição"));
+        }
+      });
+      req.on("error", reject);
+    });
+  }
+
+  private sendJson(res: ServerResponse, status: number, payload: unknown): void {
+    res.writeHead(status, { "Content-Type": "application/json" });
+    res.end(JSON.stringify(payload));
+  }
+
+  private sendJsonRpcError(res: ServerResponse, status: number, code: number, message: string): void {
+    this.sendJson(res, status, {
+      jsonrpc: "2.0",
+      error: { code, message },
+      id: null,
+    });
+  }
+}
@@ -0,0 +1,98 @@
+/**
+ * Tipos da camada de cache: a interface usada por scraper, analisadores e
+ * ferramentas, e os backends de armazenamento plugáveis por trás dela.
+ * Todos os TTLs são em minutos.
+ */
+
+export type CacheBackendName = "memory" | "file" | "sqlite";
+
+export interface CacheEntry<T> {
+  data: T;
+  timestamp: Date;
+  expiry: Date;
+}
+
+/**
+ * Entrada lida sem descartar a expiração, para servir dados vencidos
+ * enquanto uma atualização acontece (stale-while-revalidate)
+ */
+export interface CachedValue<T> extends CacheEntry<T> {
+  stale: boolean;
+}
+
+/**
+ * Metadados de uma entrada, sem os dados, para inspeção do cache
+ */
+export interface CacheEntryInfo {
+  key: string;
+  size: number; // bytes serializados
+  timestamp: Date;
+  expiry: Date;
+}
+
+export interface CacheEntryStatus extends CacheEntryInfo {
+  stale: boolean;
+}
+
+export interface CacheBackendStats {
+  totalEntries: number;
+  totalSize: number; // bytes serializados
+  oldestEntry?: Date;
+  newestEntry?: Date;
+}
+
+/**
+ * Armazenamento bruto das entradas. Expiração e TTL ficam a cargo do
+ * CacheManager; o backend só guarda, lê e remove.
+ */
+export interface CacheBackend {
+  readonly name: CacheBackendName;
+  readonly location?: string;
+  init?(): Promise<void>;
+  read<T>(key: string): Promise<CacheEntry<T> | null>;
+  write<T>(key: string, entry: CacheEntry<T>): Promise<void>;
+  delete(key: string): Promise<void>;
+  clear(): Promise<void>;
+  keys(): Promise<string[]>;
+  entries(): Promise<CacheEntryInfo[]>;
+  stats(): Promise<CacheBackendStats>;
+}
+
+/**
+ * Orçamento da camada LRU em memória do CacheManager
+ */
+export interface CacheMemoryBudget {
+  maxEntries: number;
+  maxBytes: number;
+}
+
+export interface CacheManagerOptions {
+  namespace?: string;
+  memory?: Partial<CacheMemoryBudget>;
+}
+
+export interface CacheStats extends CacheBackendStats {
+  backend: CacheBackendName;
+  location?: string;
+  namespace?: string;
+  memoryEntries: number;
+  memorySize: number; // bytes serializados na camada em memória
+  // Leituras desde o início do processo; entradas vencidas contam como miss
+  hits: number;
+  misses: number;
+}
+
+/**
+ * Cache assíncrono com TTL em minutos
+ */
+export interface Cache {
+  get<T>(key: string): Promise<T | null>;
+  getEntry<T>(key: string): Promise<CachedValue<T> | null>;
+  set<T>(key: string, data: T, ttlMinutes?: number): Promise<void>;
+  delete(key: string): Promise<void>;
+  clear(): Promise<void>;
+  has(key: string): Promise<boolean>;
+  getKeys(): Promise<string[]>;
+  getEntries(): Promise<CacheEntryStatus[]>;
+  getStats(): Promise<CacheStats>;
+}
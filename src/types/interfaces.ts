@@ -1,3 +1,5 @@
+import type { DeprecationInfo } from './mistica.js';
+
 /**
  * 🏗️ Interfaces - Tipos e interfaces compartilhadas
  * 
@@ -12,10 +14,22 @@ export interface MisticaComponent {
   url?: string;
   props?: any[];
   examples?: any[];
+  deprecation?: DeprecationInfo;
+}
+
+/**
+ * JSON Schema de objeto, formato exigido pelo MCP em `outputSchema`
+ */
+export interface JsonObjectSchema {
+  type: 'object';
+  properties?: Record<string, unknown>;
+  required?: string[];
+  [key: string]: unknown;
 }
 
 export interface Tool {
   name: string;
   description: string;
   inputSchema: any;
+  outputSchema?: JsonObjectSchema;
 }
@@ -14,8 +14,15 @@ export interface MisticaComponent {
   designTokens?: DesignToken[];
   figmaId?: string;
   storyUrl: string;
+  stories?: ComponentStory[];
   lastUpdated: Date;
   npmInfo?: NpmInfo;
+  deprecation?: DeprecationInfo;
+}
+
+export interface DeprecationInfo {
+  message: string;
+  replacement?: string;
 }
 
 export interface NpmInfo {
@@ -32,6 +39,7 @@ export interface ComponentProp {
   required: boolean;
   defaultValue?: string;
   description: string;
+  deprecation?: DeprecationInfo;
 }
 
 export interface ComponentExample {
@@ -39,6 +47,18 @@ export interface ComponentExample {
   code: string;
   description?: string;
   variant?: string;
+  // Código real da story ou JSX montado a partir dos args da story
+  origin?: "story-source" | "story-args";
+}
+
+export interface ComponentStory {
+  id: string;
+  name: string;
+  title: string;
+  url: string;
+  args?: Record<string, any>;
+  argTypes?: Record<string, any>;
+  source?: string;
 }
 
 export interface ComponentVariation {
@@ -47,13 +67,34 @@ export interface ComponentVariation {
   props: Record<string, any>;
 }
 
+export type ColorScheme = "light" | "dark";
+
 export interface DesignToken {
   name: string;
-  value: string;
+  value: string; // valor no modo claro
+  modes?: Record<ColorScheme, string>;
   category: "color" | "spacing" | "typography" | "shadow" | "border" | "other";
   description?: string;
+  skin?: MisticaSkinName;
+}
+
+export type MisticaIconWeight = "regular" | "light" | "filled";
+
+export interface MisticaIcon {
+  name: string; // export completo, ex: IconTrashCanRegular
+  baseName: string; // sem prefixo e peso, ex: TrashCan
+  weight: MisticaIconWeight;
+  keywords: string[];
 }
 
+export type MisticaSkinName =
+  | "movistar"
+  | "vivo"
+  | "o2"
+  | "telefonica"
+  | "blau"
+  | "tu";
+
 export interface MisticaCategory {
   id: string;
   name: string;
@@ -70,12 +111,6 @@ export interface StoryBookData {
   parameters?: Record<string, any>;
 }
 
-export interface CacheEntry<T> {
-  data: T;
-  timestamp: Date;
-  expiry: Date;
-}
-
 export interface ScraperConfig {
   baseUrl: string;
   cacheTimeout: number; // em minutos
@@ -0,0 +1,149 @@
+#!/usr/bin/env node
+
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { CacheManager } from '../cache/CacheManager.js';
+import { MisticaScraper } from '../scraper/MisticaScraper.js';
+import { MisticaTokenExtractor } from '../scraper/MisticaTokenExtractor.js';
+import { MisticaNpmAnalyzer, resolveMisticaPackagePath } from '../scraper/MisticaNpmAnalyzer.js';
+import {
+  MisticaCatalog,
+  catalogFormatFromPath,
+  createCatalogSnapshot,
+  parseCatalog,
+  serializeCatalog,
+} from '../catalog/MisticaCatalog.js';
+import type { CatalogSnapshot } from '../catalog/MisticaCatalog.js';
+import type { DesignToken, MisticaSkinName } from '../types/mistica.js';
+import { SKIN_NAMES, resolveSkinName } from './skins.js';
+
+/**
+ * Congela o catálogo combinado (npm + Storybook + ícones + tokens) em um arquivo
+ * versionável e verifica se um arquivo existente continua atualizado.
+ *
+ * Uso:
+ *   npm run catalog:export -- <arquivo.json|arquivo.ndjson> [--skins=movistar,vivo]
+ *   npm run catalog:verify -- <arquivo.json|arquivo.ndjson>
+ */
+
+function printUsage() {
+  console.log('Uso:');
+  console.log('  npm run catalog:export -- <arquivo.json|arquivo.ndjson> [--skins=movistar,vivo]');
+  console.log('  npm run catalog:verify -- <arquivo.json|arquivo.ndjson>');
+}
+
+/**
+ * Monta o catálogo a partir das fontes atuais, com um cache temporário
+ * para não reaproveitar dados expirados de data/cache
+ */
+async function buildSnapshot(skins: MisticaSkinName[]): Promise<CatalogSnapshot> {
+  const cacheDir = await fs.mkdtemp(path.join(os.tmpdir(), 'mistica-catalog-'));
+
+  try {
+    const cache = new CacheManager(cacheDir);
+    const components = await new MisticaScraper(cache).getAllComponents();
+    const icons = await new MisticaNpmAnalyzer(cache).getIconIndex();
+    const extractor = new MisticaTokenExtractor(cache);
+
+    const tokensBySkin: Partial<Record<MisticaSkinName, DesignToken[]>> = {};
+    for (const skin of skins) {
+      try {
+        tokensBySkin[skin] = await extractor.getAllTokens(skin);
+      } catch (error: any) {
+        console.warn(`⚠️ Skin ${skin} ignorada: ${error.message}`);
+      }
+    }
+
+    const packageJson = JSON.parse(
+      await fs.readFile(path.join(resolveMisticaPackagePath(), 'package.json'), 'utf-8')
+    );
+
+    return createCatalogSnapshot(components, tokensBySkin, packageJson.version, icons);
+  } finally {
+    await fs.rm(cacheDir, { recursive: true, force: true });
+  }
+}
+
+function describeDifferences(current: CatalogSnapshot, fresh: CatalogSnapshot): string[] {
+  const lines: string[] = [];
+
+  if (current.misticaVersion !== fresh.misticaVersion) {
+    lines.push(`Versão do Mística: ${current.misticaVersion} → ${fresh.misticaVersion}`);
+  }
+
+  const currentById = new Map(current.components.map(c => [c.id, JSON.stringify(c)]));
+  const freshById = new Map(fresh.components.map(c => [c.id, JSON.stringify(c)]));
+  const added = [...freshById.keys()].filter(id => !currentById.has(id));
+  const removed = [...currentById.keys()].filter(id => !freshById.has(id));
+  const changed = [...freshById.keys()].filter(
+    id => currentById.has(id) && currentById.get(id) !== freshById.get(id)
+  );
+
+  if (added.length) lines.push(`Componentes adicionados: ${added.join(', ')}`);
+  if (removed.length) lines.push(`Componentes removidos: ${removed.join(', ')}`);
+  if (changed.length) lines.push(`Componentes alterados: ${changed.join(', ')}`);
+
+  const currentIcons = new Set((current.icons || []).map(icon => icon.name));
+  const freshIcons = new Set((fresh.icons || []).map(icon => icon.name));
+  const addedIcons = [...freshIcons].filter(name => !currentIcons.has(name));
+  const removedIcons = [...currentIcons].filter(name => !freshIcons.has(name));
+  if (addedIcons.length) lines.push(`Ícones adicionados: ${addedIcons.length}`);
+  if (removedIcons.length) lines.push(`Ícones removidos: ${removedIcons.join(', ')}`);
+
+  const skins = new Set([...current.skins, ...fresh.skins]);
+  for (const skin of skins) {
+    const before = JSON.stringify(current.tokens[skin] || []);
+    const after = JSON.stringify(fresh.tokens[skin] || []);
+    if (before !== after) {
+      lines.push(`Tokens da skin ${skin} alterados`);
+    }
+  }
+
+  return lines;
+}
+
+async function main() {
+  const [command, file, ...rest] = process.argv.slice(2);
+
+  if (!file || (command !== 'export' && command !== 'verify')) {
+    printUsage();
+    process.exit(1);
+  }
+
+  const format = catalogFormatFromPath(file);
+
+  if (command === 'export') {
+    const skinsArg = rest.find(arg => arg.startsWith('--skins='));
+    const skins = skinsArg
+      ? skinsArg.slice('--skins='.length).split(',').map(skin => resolveSkinName(skin.trim()))
+      : SKIN_NAMES;
+
+    const snapshot = await buildSnapshot(skins);
+    await MisticaCatalog.write(file, snapshot);
+
+    console.log(`✅ Catálogo exportado para ${file} (${format.toUpperCase()})`);
+    console.log(`   ${snapshot.components.length} componentes, ${snapshot.icons?.length ?? 0} ícones, Mística ${snapshot.misticaVersion}`);
+    console.log(`   Skins: ${snapshot.skins.join(', ') || 'nenhuma'}`);
+    console.log(`▶️ Use com: node dist/index.js --catalog=${file}`);
+    return;
+  }
+
+  const current = parseCatalog(await fs.readFile(file, 'utf-8'), format);
+  const fresh = await buildSnapshot(current.skins);
+
+  if (serializeCatalog(current, format) === serializeCatalog(fresh, format)) {
+    console.log(`✅ Catálogo ${file} está atualizado`);
+    return;
+  }
+
+  console.log(`❌ Catálogo ${file} está desatualizado:`);
+  describeDifferences(current, fresh).forEach(line => console.log(`   - ${line}`));
+  console.log('   Regere com: npm run catalog:export -- ' + file);
+  process.exit(1);
+}
+
+main().catch(error => {
+  console.error('❌ Erro no catálogo:', error.message);
+  process.exit(1);
+});
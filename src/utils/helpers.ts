@@ -150,3 +150,39 @@ export class RateLimiter {
     return Math.max(0, waitTime);
   }
 }
+
+/**
+ * Distância de edição (Levenshtein) entre duas strings
+ */
+export function levenshteinDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+    }
+    previous = current;
+  }
+
+  return previous[b.length];
+}
+
+/**
+ * Retorna o candidato mais próximo (sem diferenciar maiúsculas) quando a
+ * distância não passa de um terço do tamanho do valor buscado
+ */
+export function findClosestMatch(value: string, candidates: string[]): string | undefined {
+  const maxDistance = Math.max(1, Math.floor(value.length / 3));
+  let best: { candidate: string; distance: number } | undefined;
+
+  for (const candidate of candidates) {
+    const distance = levenshteinDistance(value.toLowerCase(), candidate.toLowerCase());
+    if (distance <= maxDistance && (!best || distance < best.distance)) {
+      best = { candidate, distance };
+    }
+  }
+
+  return best?.candidate;
+}
@@ -0,0 +1,71 @@
+#!/usr/bin/env node
+
+import { StorybookSnapshotStore } from '../scraper/StorybookSnapshotStore.js';
+import { MisticaScraper } from '../scraper/MisticaScraper.js';
+import { CacheManager, createCacheBackend, getCacheNamespace } from '../cache/CacheManager.js';
+import { getCacheOptions } from './serverOptions.js';
+
+/**
+ * Importa um build estático do Storybook (ou um snapshot exportado) como
+ * fonte de dados offline do servidor.
+ *
+ * Uso:
+ *   npm run import:storybook -- <storybook-static | snapshot.json | index.json>
+ *   npm run import:storybook -- --export <arquivo.json>
+ *
+ * O cache invalidado é o mesmo do servidor: aceita `--cache=`,
+ * `--cache-dir=` e as variáveis MISTICA_CACHE_*.
+ */
+
+function printUsage() {
+  console.log('Uso:');
+  console.log('  npm run import:storybook -- <diretório do build | snapshot.json | index.json>');
+  console.log('  npm run import:storybook -- --export <arquivo.json>');
+}
+
+async function main() {
+  // Flags de cache são lidas por getCacheOptions, não são caminhos
+  const args = process.argv.slice(2).filter(arg => !arg.startsWith('--cache'));
+  const store = new StorybookSnapshotStore();
+
+  if (args.length === 0 || args.includes('--help')) {
+    printUsage();
+    process.exit(args.length === 0 ? 1 : 0);
+  }
+
+  if (args[0] === '--export') {
+    if (!args[1]) {
+      printUsage();
+      process.exit(1);
+    }
+    const snapshot = await store.exportTo(args[1]);
+    console.log(`📤 Snapshot com ${snapshot.entries.length} stories exportado para ${args[1]}`);
+    return;
+  }
+
+  console.log(`📥 Importando Storybook de ${args[0]}...`);
+  const snapshot = await store.importFrom(args[0]);
+
+  const titles = new Set(snapshot.entries.map(entry => entry.title));
+  const withArgs = snapshot.entries.filter(entry => entry.args).length;
+  const withSource = snapshot.entries.filter(entry => entry.source).length;
+
+  console.log(`✅ ${snapshot.entries.length} stories de ${titles.size} títulos importadas`);
+  console.log(`   ${withArgs} com args, ${withSource} com código fonte`);
+  console.log(`💾 Snapshot salvo em ${store.getSnapshotPath()}`);
+
+  // O catálogo em cache foi montado com a fonte anterior
+  const cacheOptions = getCacheOptions();
+  const cache = new CacheManager(createCacheBackend(cacheOptions.backend, cacheOptions.dir), undefined, {
+    namespace: getCacheNamespace(),
+    memory: cacheOptions.memory,
+  });
+  await cache.init();
+  await new MisticaScraper(cache).invalidateCache();
+  console.log('🗑️ Catálogo em cache invalidado; o próximo acesso usará o snapshot');
+}
+
+main().catch(error => {
+  console.error('❌ Erro ao importar Storybook:', error.message);
+  process.exit(1);
+});
@@ -0,0 +1,106 @@
+import type { CacheBackendName, CacheMemoryBudget } from '../types/cache.js';
+
+/**
+ * Opções de transporte do servidor MCP (stdio ou Streamable HTTP)
+ */
+
+export type MisticaTransportMode = 'stdio' | 'http';
+
+export interface ServerTransportOptions {
+  transport: MisticaTransportMode;
+  host: string;
+  port: number;
+  sessionTtlMinutes: number;
+}
+
+const DEFAULT_PORT = 3333;
+const DEFAULT_HOST = '127.0.0.1';
+const DEFAULT_SESSION_TTL_MINUTES = 30;
+
+function readOption(argv: string[], flag: string, envValue: string | undefined): string | undefined {
+  const arg = argv.find(a => a.startsWith(`--${flag}=`));
+  return arg ? arg.slice(flag.length + 3) : envValue;
+}
+
+function parsePositiveInt(value: string | undefined, fallback: number, label: string): number {
+  if (value === undefined || value === '') {
+    return fallback;
+  }
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed <= 0) {
+    throw new Error(`Valor inválido para ${label}: "${value}"`);
+  }
+  return parsed;
+}
+
+/**
+ * Caminho do catálogo congelado (`--catalog=catalog.ndjson` ou
+ * MISTICA_CATALOG). Sem ele, o catálogo vem das fontes dinâmicas.
+ */
+export function getCatalogPath(argv: string[] = process.argv, env = process.env): string | undefined {
+  return readOption(argv, 'catalog', env.MISTICA_CATALOG) || undefined;
+}
+
+export interface ServerCacheOptions {
+  backend: CacheBackendName;
+  dir?: string;
+  memory: Partial<CacheMemoryBudget>;
+}
+
+const CACHE_BACKENDS: CacheBackendName[] = ['memory', 'file', 'sqlite'];
+
+/**
+ * Backend do cache (`--cache=memory|file|sqlite` ou MISTICA_CACHE_BACKEND,
+ * padrão file), diretório (`--cache-dir=` ou MISTICA_CACHE_DIR) e orçamento
+ * da camada em memória (`--cache-memory-entries=` / MISTICA_CACHE_MEMORY_ENTRIES
+ * e `--cache-memory-mb=` / MISTICA_CACHE_MEMORY_MB)
+ */
+export function getCacheOptions(argv: string[] = process.argv, env = process.env): ServerCacheOptions {
+  const backend = (readOption(argv, 'cache', env.MISTICA_CACHE_BACKEND) || 'file').toLowerCase().trim();
+  if (!CACHE_BACKENDS.includes(backend as CacheBackendName)) {
+    throw new Error(`Cache "${backend}" não suportado. Use: ${CACHE_BACKENDS.join(', ')}`);
+  }
+
+  return {
+    backend: backend as CacheBackendName,
+    dir: readOption(argv, 'cache-dir', env.MISTICA_CACHE_DIR) || undefined,
+    memory: readMemoryBudget(argv, env),
+  };
+}
+
+function readMemoryBudget(argv: string[], env: NodeJS.ProcessEnv): Partial<CacheMemoryBudget> {
+  const budget: Partial<CacheMemoryBudget> = {};
+  const entries = readOption(argv, 'cache-memory-entries', env.MISTICA_CACHE_MEMORY_ENTRIES);
+  const megabytes = readOption(argv, 'cache-memory-mb', env.MISTICA_CACHE_MEMORY_MB);
+
+  if (entries) {
+    budget.maxEntries = parsePositiveInt(entries, 0, 'cache-memory-entries');
+  }
+  if (megabytes) {
+    budget.maxBytes = parsePositiveInt(megabytes, 0, 'cache-memory-mb') * 1024 * 1024;
+  }
+  return budget;
+}
+
+/**
+ * Lê o transporte por flags (`--transport=http --port=3333 --host=0.0.0.0`)
+ * ou variáveis de ambiente (MISTICA_MCP_TRANSPORT, MISTICA_MCP_PORT,
+ * MISTICA_MCP_HOST, MISTICA_MCP_SESSION_TTL). O padrão é stdio.
+ */
+export function getServerTransportOptions(argv: string[] = process.argv, env = process.env): ServerTransportOptions {
+  const transport = (readOption(argv, 'transport', env.MISTICA_MCP_TRANSPORT) || 'stdio').toLowerCase().trim();
+  if (transport !== 'stdio' && transport !== 'http') {
+    throw new Error(`Transporte "${transport}" não suportado. Use: stdio, http`);
+  }
+
+  return {
+    transport,
+    host: readOption(argv, 'host', env.MISTICA_MCP_HOST) || DEFAULT_HOST,
+    port: parsePositiveInt(readOption(argv, 'port', env.MISTICA_MCP_PORT), DEFAULT_PORT, 'porta'),
+    sessionTtlMinutes: parsePositiveInt(
+      readOption(argv, 'session-ttl', env.MISTICA_MCP_SESSION_TTL),
+      DEFAULT_SESSION_TTL_MINUTES,
+      'TTL de sessão'
+    ),
+  };
+}
@@ -0,0 +1,73 @@
+/**
+ * Utilitários para as skins (marcas) suportadas pelo Mística
+ */
+import type { MisticaSkinName } from '../types/mistica.js';
+
+export interface SkinDefinition {
+  label: string;
+  file: string;
+  getter: string;
+  locale: string;
+  regionCode: string;
+}
+
+export const MISTICA_SKINS: Record<MisticaSkinName, SkinDefinition> = {
+  movistar: { label: 'Movistar', file: 'movistar', getter: 'getMovistarSkin', locale: 'es-ES', regionCode: 'ES' },
+  vivo: { label: 'Vivo', file: 'vivo', getter: 'getVivoSkin', locale: 'pt-BR', regionCode: 'BR' },
+  o2: { label: 'O2', file: 'o2', getter: 'getO2Skin', locale: 'en-GB', regionCode: 'GB' },
+  telefonica: { label: 'Telefónica', file: 'telefonica', getter: 'getTelefonicaSkin', locale: 'es-ES', regionCode: 'ES' },
+  blau: { label: 'Blau', file: 'blau', getter: 'getBlauSkin', locale: 'de-DE', regionCode: 'DE' },
+  tu: { label: 'Tu', file: 'tu', getter: 'getTuSkin', locale: 'es-ES', regionCode: 'ES' },
+};
+
+export const SKIN_NAMES = Object.keys(MISTICA_SKINS) as MisticaSkinName[];
+
+export const DEFAULT_SKIN: MisticaSkinName = 'movistar';
+
+export function isSkinName(value: unknown): value is MisticaSkinName {
+  return typeof value === 'string' && Object.hasOwn(MISTICA_SKINS, value);
+}
+
+/**
+ * Normaliza o nome da skin recebido (ex: "Vivo", "O2") e valida se é suportado
+ */
+export function resolveSkinName(value: unknown, fallback: MisticaSkinName = DEFAULT_SKIN): MisticaSkinName {
+  if (value === undefined || value === null || value === '') {
+    return fallback;
+  }
+  const normalized = String(value).toLowerCase().trim();
+  if (!isSkinName(normalized)) {
+    throw new Error(`Skin "${value}" não suportada. Use uma de: ${SKIN_NAMES.join(', ')}`);
+  }
+  return normalized;
+}
+
+/**
+ * Skin padrão do servidor, definida por `--skin=<nome>` ou pela variável MISTICA_SKIN
+ */
+export function getServerDefaultSkin(argv: string[] = process.argv, env = process.env): MisticaSkinName {
+  const flag = argv.find(arg => arg.startsWith('--skin='));
+  const value = flag ? flag.split('=')[1] : env.MISTICA_SKIN;
+  return resolveSkinName(value);
+}
+
+/**
+ * Gera o snippet de ThemeContextProvider com o getXxxSkin() da marca
+ */
+export function generateThemeProviderSnippet(skin: MisticaSkinName): string {
+  const definition = MISTICA_SKINS[skin];
+  return [
+    `import { ThemeContextProvider, ${definition.getter} } from '@telefonica/mistica';`,
+    '',
+    'const theme = {',
+    `  skin: ${definition.getter}(),`,
+    `  i18n: { locale: '${definition.locale}', phoneNumberFormattingRegionCode: '${definition.regionCode}' },`,
+    '};',
+    '',
+    'export const App = () => (',
+    '  <ThemeContextProvider theme={theme}>',
+    '    {/* ... */}',
+    '  </ThemeContextProvider>',
+    ');',
+  ].join('\n');
+}